@@ -4,7 +4,7 @@ import { execSync } from 'node:child_process';
 import fs from 'node:fs';
 import { join } from 'node:path';
 import JSON5 from 'json5';
-import mergeConfig, { parseTarget } from '../lib/merge-config.js';
+import mergeConfig from '../lib/merge-config.js';
 import type { FlattenedConfig } from '../types/index.js';
 
 // Support --parse <file> for jq-json5 helper
@@ -76,40 +76,75 @@ try {
   const delimiter = core.getInput('delimiter') || '.';
   const ephemeralBranchPrefix = core.getInput('ephemeral-branch-prefix');
   const disableEphemeralBranchCheck = core.getInput('disable-ephemeral-branch-check') === 'true';
+  const normalizeEphemeralName = core.getInput('normalize-ephemeral-name') === 'true';
+  const ephemeralNameMaxLengthInput = core.getInput('ephemeral-name-max-length');
+  const ephemeralNameMaxLength = ephemeralNameMaxLengthInput ? Number(ephemeralNameMaxLengthInput) : undefined;
+  if (ephemeralNameMaxLength !== undefined && !Number.isInteger(ephemeralNameMaxLength)) {
+    throw new Error(`Invalid ephemeral-name-max-length input '${ephemeralNameMaxLengthInput}'. Expected an integer`);
+  }
+  const ephemeralBase = core.getInput('ephemeral-base') || undefined;
   const displayOutputs = core.getInput('display-outputs') === 'true';
   const component = core.getInput('component') || null;
   const hoist = core.getInput('hoist') !== 'false';
+  const overlays = core.getMultilineInput('overlays');
+  const allowedEnvVars = core.getMultilineInput('allow-env');
+  const metadataValidation = core.getInput('metadata-validation') || undefined;
+  if (metadataValidation !== undefined && metadataValidation !== 'strict' && metadataValidation !== 'lenient') {
+    throw new Error(`Invalid metadata-validation input '${metadataValidation}'. Expected 'strict' or 'lenient'`);
+  }
+  const metadataPlacement = core.getInput('metadata-placement') || 'root';
+  if (metadataPlacement !== 'root' && metadataPlacement !== 'meta' && metadataPlacement !== 'prefix') {
+    throw new Error(`Invalid metadata-placement input '${metadataPlacement}'. Expected 'root', 'meta' or 'prefix'`);
+  }
+  const metadataPrefix = core.getInput('metadata-prefix') || undefined;
+
+  const branchName = process.env.GITHUB_REF_NAME;
 
-  // Determine env and region from target or individual inputs
-  let env: string;
+  // Determine env and region from target or individual inputs (target is parsed against the config).
+  // Without either, the ephemeral environment is derived from the branch name
+  let env: string | undefined;
   let region: string | undefined;
 
-  if (target) {
-    const parsed = parseTarget(target);
-    env = parsed.env;
-    region = parsed.region;
-    core.info(`Using target '${target}' -> env: '${env}', region: '${region ?? '(none)'}'`);
-  } else {
-    env = core.getInput('env');
+  if (!target) {
+    env = core.getInput('env') || undefined;
     region = core.getInput('region') || undefined;
-    if (!env) {
+    if (!env && !branchName) {
       throw new Error("Either 'target' or 'env' input is required");
     }
   }
 
   const flat = mergeConfig({
     configFile,
+    target: target || undefined,
     env,
     region,
     output: 'flatten',
     delimiter,
     ephemeralBranchPrefix,
     disableEphemeralBranchCheck,
-    branchName: process.env.GITHUB_REF_NAME,
+    branchName,
+    normalizeEphemeralName,
+    ephemeralNameMaxLength,
+    ephemeralBase,
     component,
-    hoist
+    hoist,
+    overlays,
+    allowedEnvVars,
+    metadataValidation,
+    metadataPlacement,
+    metadataPrefix,
+    onWarning: message => core.warning(message),
+    onSecret: value => core.setSecret(value)
   }) as FlattenedConfig;
 
+  if (target) {
+    // Metadata output names depend on the placement, e.g. _meta.env_name or udc_env_name
+    const metadataOutput = (field: string): string => metadataPlacement === 'meta'
+      ? `_meta${delimiter}${field}`
+      : `${metadataPlacement === 'prefix' ? metadataPrefix : ''}${field}`;
+    core.info(`Using target '${target}' -> env: '${String(flat[metadataOutput('env_name')])}', region: '${String(flat[metadataOutput('region')] || '(none)')}'`);
+  }
+
   if (displayOutputs) {
     console.log('=== Merged Configuration ===');
     console.log(JSON.stringify(flat, null, 2));
@@ -3,35 +3,146 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import JSON5 from 'json5';
-import { program, Option } from 'commander';
-import { mergeConfig, parseTarget } from './lib/merge-config.js';
+import { program, Command, InvalidArgumentError, Option } from 'commander';
+import { explainConfig, mergeConfig } from './lib/merge-config.js';
+import { loadConfigFile, writeConfigDirectory } from './lib/config-loader.js';
+import { redactSecrets } from './lib/secrets.js';
+import { validateMetadataKeys } from './lib/metadata.js';
+import type { ConfigValue, DeploymentConfig, MergeConfigOptions, MetadataPlacement, MetadataValidationMode, ProvenanceSource } from './types/index.js';
 import { checkComponentAvailability, checkAllComponentsAvailability } from './lib/component-discovery.js';
-import type { DeploymentConfig } from './types/index.js';
 
-interface ResolveCommandOptions {
+// Options shared by the commands that resolve a single target
+interface TargetCommandOptions {
   config: string;
   target?: string;
   env?: string;
   region?: string;
-  output: 'json' | 'flatten';
-  delimiter: string;
-  terraform: boolean;
   ephemeralBranchPrefix?: string;
   disableEphemeralBranchCheck: boolean;
   branchName?: string;
+  normalizeEphemeralName: boolean;
+  ephemeralNameMaxLength?: number;
+  ephemeralBase?: string;
   component?: string;
   hoist: boolean;
+  overlay: string[];
+  allowEnv: string[];
+  metadataValidation?: MetadataValidationMode;
+  metadataPlacement: MetadataPlacement;
+  metadataPrefix?: string;
+}
+
+interface ResolveCommandOptions extends TargetCommandOptions {
+  output: 'json' | 'flatten';
+  delimiter: string;
+  terraform: boolean;
   debug: boolean;
 }
 
+interface ExplainCommandOptions extends TargetCommandOptions {
+  path?: string;
+  output: 'text' | 'json';
+}
+
 interface ListEnvironmentsCommandOptions {
   config: string;
   component?: string;
   output: 'json' | 'list';
+  metadataValidation?: MetadataValidationMode;
 }
 
 interface ConvertCommandOptions {
   minify: boolean;
+  layout: 'file' | 'directory';
+  force: boolean;
+}
+
+// Collect repeatable option values into a list
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new InvalidArgumentError('Expected an integer');
+  }
+  return parsed;
+}
+
+function metadataValidationOption(): Option {
+  return new Option('--metadata-validation <mode>', 'How metadata problems (unknown or misplaced keys, overwritten values) are reported: strict fails, lenient warns (default: unknown keys fail, overwritten values warn)')
+    .choices(['strict', 'lenient']);
+}
+
+// Adds the options that select and resolve a single target; `verb` names what the command does with it
+function addTargetOptions(command: Command, verb: string): Command {
+  return command
+    .requiredOption('--config <path>', 'Path to the configuration file or directory')
+    .option('--target <deployment-id>', 'Target Deployment ID in format: environment[-region] (e.g., dev-usw2)')
+    .option('--env <env>', 'Environment name (cannot be used with --target)')
+    .option('--region <region>', 'Region code or name (cannot be used with --target)')
+    .option('--ephemeral-branch-prefix <prefix>', 'Prefix for ephemeral branch names')
+    .option('--disable-ephemeral-branch-check', 'Disable ephemeral branch validation', false)
+    .option('--branch-name <name>', 'Branch name for ephemeral environments')
+    .option('--normalize-ephemeral-name', 'Normalize ephemeral names derived from branches instead of rejecting other characters', false)
+    .option('--ephemeral-name-max-length <length>', 'Maximum length of normalized ephemeral names (longer names get a hash suffix)', parseInteger)
+    .option('--ephemeral-base <env>', 'Base environment for ephemeral environments (replaces the _baseEnvironment of the ephemeral config)')
+    .option('--component <component>', `Component name to ${verb} (if omitted, ${verb}s all components)`)
+    .option('--hoist', 'Hoist component to root (default: true)', true)
+    .option('--no-hoist', 'Include all components without hoisting')
+    .option('--overlay <file>', 'Overlay file applied on top of the resolved target (repeatable)', collect, [])
+    .option('--allow-env <name>', 'Environment variable that ${env:NAME} placeholders may read; a trailing * allows a prefix (repeatable)', collect, [])
+    .addOption(metadataValidationOption())
+    .addOption(
+      new Option('--metadata-placement <placement>', 'Where metadata fields (env_name, region, etc.) are added: root, meta (under _meta) or prefix')
+        .choices(['root', 'meta', 'prefix'])
+        .default('root')
+    )
+    .option('--metadata-prefix <prefix>', 'Prefix of the metadata field names with --metadata-placement prefix (e.g. udc_)');
+}
+
+// Validate mutually exclusive options
+function validateTargetOptions(options: TargetCommandOptions): void {
+  if (options.target && (options.env || options.region)) {
+    console.error('Error: --target cannot be used with --env or --region');
+    process.exit(1);
+  }
+  if (!options.target && !options.env && !options.branchName) {
+    console.error('Error: Either --target or --env must be specified (or --branch-name for an ephemeral environment)');
+    process.exit(1);
+  }
+}
+
+function toMergeConfigOptions(options: TargetCommandOptions): MergeConfigOptions {
+  return {
+    configFile: options.config,
+    target: options.target,
+    env: options.env,
+    region: options.region,
+    ephemeralBranchPrefix: options.ephemeralBranchPrefix,
+    disableEphemeralBranchCheck: options.disableEphemeralBranchCheck,
+    branchName: options.branchName,
+    normalizeEphemeralName: options.normalizeEphemeralName,
+    ephemeralNameMaxLength: options.ephemeralNameMaxLength,
+    ephemeralBase: options.ephemeralBase,
+    component: options.component,
+    hoist: options.hoist,
+    overlays: options.overlay,
+    allowedEnvVars: options.allowEnv,
+    metadataValidation: options.metadataValidation,
+    metadataPlacement: options.metadataPlacement,
+    metadataPrefix: options.metadataPrefix,
+  };
+}
+
+function describeSource(source: ProvenanceSource): string {
+  const location = source.layer === 'metadata' ? source.layer : `${source.layer} (${source.layerPath})`;
+  return source.file ? `${location} [${source.file}]` : location;
+}
+
+function formatValue(value: ConfigValue): string {
+  return JSON.stringify(value);
 }
 
 program
@@ -40,13 +151,12 @@ program
   .version('1.0.0');
 
 // Parse command - merge configurations for different environments and regions
-program
-  .command('resolve')
-  .description('Show resolved active configuration for a specified environment and region')
-  .requiredOption('--config <path>', 'Path to the configuration file')
-  .option('--target <deployment-id>', 'Target Deployment ID in format: environment[-region] (e.g., dev-usw2)')
-  .option('--env <env>', 'Environment name (cannot be used with --target)')
-  .option('--region <region>', 'Region code or name (cannot be used with --target)')
+addTargetOptions(
+  program
+    .command('resolve')
+    .description('Show resolved active configuration for a specified environment and region'),
+  'resolve'
+)
   .addOption(
     new Option('--output <format>', 'Output format (json or flatten)')
       .choices(['json', 'flatten'])
@@ -54,54 +164,27 @@ program
   )
   .option('--delimiter <char>', 'Delimiter for flattened output', '.')
   .option('--terraform', 'Enable Terraform output mode', false)
-  .option('--ephemeral-branch-prefix <prefix>', 'Prefix for ephemeral branch names')
-  .option('--disable-ephemeral-branch-check', 'Disable ephemeral branch validation', false)
-  .option('--branch-name <name>', 'Branch name for ephemeral environments')
-  .option('--component <component>', 'Component name to resolve (if omitted, resolves all components)')
-  .option('--hoist', 'Hoist component to root (default: true)', true)
-  .option('--no-hoist', 'Include all components without hoisting')
   .option('--debug', 'Enable debug mode', false)
   .action((options: ResolveCommandOptions) => {
-    // Validate mutually exclusive options
-    if (options.target && (options.env || options.region)) {
-      console.error('Error: --target cannot be used with --env or --region');
-      process.exit(1);
-    }
-    if (!options.target && !options.env) {
-      console.error('Error: Either --target or --env must be specified');
-      process.exit(1);
-    }
+    validateTargetOptions(options);
 
-    // Parse target or use env/region directly
-    let env: string;
-    let region: string | undefined;
-    if (options.target) {
-      const parsed = parseTarget(options.target);
-      env = parsed.env;
-      region = parsed.region;
-    } else {
-      env = options.env!;
-      region = options.region;
-    }
+    // Track resolved secrets so debug output can redact them
+    const secrets = new Set<string>();
 
+    // Target is parsed against the config (e.g. to reject region groups), otherwise env/region are used directly
     const result = mergeConfig({
-      configFile: options.config,
-      env,
-      region,
+      ...toMergeConfigOptions(options),
       output: options.output,
       delimiter: options.delimiter,
-      ephemeralBranchPrefix: options.ephemeralBranchPrefix,
-      disableEphemeralBranchCheck: options.disableEphemeralBranchCheck,
-      branchName: options.branchName,
-      component: options.component,
-      hoist: options.hoist
+      onSecret: value => secrets.add(value)
     });
 
     if (options.terraform) {
       // If debug mode is enabled, output human-readable config to stderr for visibility
       if (options.debug) {
+        const redacted = redactSecrets(result, secrets);
         console.error('=== DEBUG: Merged Configuration ===');
-        console.error(JSON.stringify(result, null, 2));
+        console.error(JSON.stringify(redacted, null, 2));
         console.error('=== END DEBUG ===');
 
         // Write to a debug file in /tmp with random suffix for easier viewing when called from Terraform
@@ -109,7 +192,7 @@ program
           const timestamp = Date.now();
           const randomSuffix = Math.random().toString(36).substring(2, 8);
           const debugFile = path.join('/tmp', `merge-config-debug-${timestamp}-${randomSuffix}.json`);
-          fs.writeFileSync(debugFile, JSON.stringify(result, null, 2));
+          fs.writeFileSync(debugFile, JSON.stringify(redacted, null, 2));
           console.error(`=== DEBUG: Debug file written to ${debugFile} ===`);
         } catch (e) {
           const error = e as Error;
@@ -127,22 +210,73 @@ program
     }
   });
 
+// Explain command - show which layer each resolved value comes from
+addTargetOptions(
+  program
+    .command('explain')
+    .description('Show where each resolved value of a target comes from and which values it overrides'),
+  'explain'
+)
+  .option('--path <path>', 'Only explain the value at this dot-notation path and the values below it')
+  .addOption(
+    new Option('--output <format>', 'Output format (text or json)')
+      .choices(['text', 'json'])
+      .default('text')
+  )
+  .action((options: ExplainCommandOptions) => {
+    validateTargetOptions(options);
+
+    // Secrets are redacted from the explanation, including the values they override
+    const secrets = new Set<string>();
+    const { provenance } = explainConfig({
+      ...toMergeConfigOptions(options),
+      onSecret: value => secrets.add(value)
+    });
+
+    const requestedPath = options.path;
+    const redactSource = (source: ProvenanceSource): ProvenanceSource => ({ ...source, value: redactSecrets(source.value, secrets) });
+    const entries = provenance
+      .filter(entry => !requestedPath || entry.path === requestedPath || entry.path.startsWith(`${requestedPath}.`))
+      .map(entry => ({
+        ...entry,
+        value: redactSecrets(entry.value, secrets),
+        source: entry.source && redactSource(entry.source),
+        overrides: entry.overrides.map(redactSource),
+      }));
+    if (requestedPath && entries.length === 0) {
+      console.error(`Error: No resolved value at path: ${requestedPath}`);
+      process.exit(1);
+    }
+
+    if (options.output === 'json') {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+    for (const entry of entries) {
+      console.log(`${entry.path} = ${formatValue(entry.value)}`);
+      console.log(`  set by ${entry.source ? describeSource(entry.source) : 'a computed value'}`);
+      for (const override of [...entry.overrides].reverse()) {
+        console.log(`  overrides ${describeSource(override)}: ${formatValue(override.value)}`);
+      }
+    }
+  });
+
 // List environments command - find environments where components have valid configuration
 program
   .command('list-environments')
   .alias('le')
   .description('List environments where components have valid configuration (no null values)')
-  .requiredOption('--config <path>', 'Path to the configuration file')
+  .requiredOption('--config <path>', 'Path to the configuration file or directory')
   .option('--component <name>', 'Component name to check (if omitted, checks all components)')
   .addOption(
     new Option('--output <format>', 'Output format')
       .choices(['json', 'list'])
       .default('json')
   )
+  .addOption(metadataValidationOption())
   .action((options: ListEnvironmentsCommandOptions) => {
-    const configPath = path.resolve(options.config);
-    const configContent = fs.readFileSync(configPath, 'utf8');
-    const config = JSON5.parse(configContent) as DeploymentConfig;
+    const config = loadConfigFile(options.config);
+    validateMetadataKeys(config, options.metadataValidation);
 
     if (options.component) {
       // Single component check
@@ -201,18 +335,43 @@ program
     }
   });
 
-// Convert command - convert JSON5 to JSON
+// Convert command - convert JSON5 to JSON, or between the single-file and directory config layouts
 program
   .command('convert')
-  .description('Convert JSON5 file to standard JSON')
-  .argument('<input>', 'Input JSON5 file path')
-  .argument('[output]', 'Output JSON file path (optional, defaults to stdout)')
+  .description('Convert JSON5 file to standard JSON, or convert between single-file and directory config layouts')
+  .argument('<input>', 'Input JSON5 file path or config directory')
+  .argument('[output]', 'Output JSON file path or directory (optional for file layout, defaults to stdout)')
   .option('--minify', 'Minify the JSON output', false)
+  .addOption(
+    new Option('--layout <layout>', 'Output layout: a single JSON file or a config directory')
+      .choices(['file', 'directory'])
+      .default('file')
+  )
+  .option('--force', 'Write the directory layout into a non-empty output directory', false)
   .action((input: string, output: string | undefined, options: ConvertCommandOptions) => {
     try {
       const inputPath = path.resolve(input);
-      const json5Content = fs.readFileSync(inputPath, 'utf8');
-      const parsed = JSON5.parse(json5Content) as unknown;
+      // Configs (directories, or files split into the directory layout) are loaded with their includes resolved
+      const parsed = fs.statSync(inputPath).isDirectory() || options.layout === 'directory'
+        ? loadConfigFile(inputPath)
+        : JSON5.parse(fs.readFileSync(inputPath, 'utf8')) as unknown;
+
+      if (options.layout === 'directory') {
+        if (!output) {
+          throw new Error('An output directory is required for the directory layout');
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          throw new Error('Input must contain a configuration object');
+        }
+        const outputPath = path.resolve(output);
+        if (!options.force && fs.existsSync(outputPath) && fs.statSync(outputPath).isDirectory() && fs.readdirSync(outputPath).length > 0) {
+          throw new Error(`Output directory '${output}' is not empty. Use --force to write into it anyway`);
+        }
+        writeConfigDirectory(parsed as DeploymentConfig, outputPath);
+        console.error(`Successfully converted ${input} to directory ${output}`);
+        return;
+      }
+
       const jsonOutput = options.minify
         ? JSON.stringify(parsed)
         : JSON.stringify(parsed, null, 2);
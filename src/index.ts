@@ -2,13 +2,33 @@
 export { default as mergeConfig } from './lib/merge-config.js';
 export {
   mergeConfig as mergeConfigFn,
+  explainConfig,
+  listSecretReferences,
+  getEphemeralTemplates,
+  normalizeEnvironmentName,
+} from './lib/merge-config.js';
+export {
   parseTarget,
   getRegionShortCode,
   getRegionFullName,
+  getEnvironmentRegionCatalog,
+  getConfigRegionCatalog,
+  getRegionAliases,
   AwsRegionMapping,
   AwsRegionToShortCode,
-} from './lib/merge-config.js';
+  AwsRegionCatalog,
+  GcpRegionCatalog,
+  AzureRegionCatalog,
+  RegionCatalogs,
+} from './lib/regions.js';
 export { checkComponentAvailability, checkComponentValidity } from './lib/component-discovery.js';
 export { deepMerge, findNullValue } from './lib/utils.js';
+export { interpolateConfig } from './lib/interpolation.js';
+export type { InterpolationOptions } from './lib/interpolation.js';
+export { collectProvenance } from './lib/provenance.js';
+export { findMetadataKeyProblems, findOverlayMetadataKeyProblems, validateMetadataKeys } from './lib/metadata.js';
+export { loadConfigFile } from './lib/config-loader.js';
+export { builtinFunctions } from './lib/functions.js';
+export { createFileSecretProvider, createEnvSecretProvider, findSecretReferences, redactSecrets } from './lib/secrets.js';
 export { flatten } from './flatten.js';
 export * from './types/index.js';
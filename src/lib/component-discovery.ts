@@ -1,5 +1,9 @@
-import { deepMerge, findNullValue } from './utils.js';
-import { getRegionShortCode } from './merge-config.js';
+import { findNullValue, isUnsetMarker } from './utils.js';
+import { findBrokenReference } from './interpolation.js';
+import { applyLayerConditions, evaluateConditions } from './conditions.js';
+import { collectRequiredSpecs, findRequiredValueProblem } from './required.js';
+import { getEnvironmentRegions, getEphemeralTemplateEnvironments, getTargetLayers, mergeComponentLayers, mergeTargetLayers } from './layers.js';
+import { getConfigRegionCatalog, getEnvironmentRegionCatalog, getRegionShortCode } from './regions.js';
 import type {
   DeploymentConfig,
   EnvironmentConfig,
@@ -26,16 +30,10 @@ function isComponentRegionAgnostic(
   envName: string,
   componentName: string
 ): boolean {
-  const defaults = config.defaults ?? {};
-  const envConfig = envSource[envName] ?? {};
-
-  const defaultComp = defaults[componentName] as ComponentConfig | undefined;
-  const envComp = envConfig[componentName] as ComponentConfig | undefined;
-
-  // Merge defaults and env level to check _regionAgnostic
+  // Merge defaults and env level (including base environments) to check _regionAgnostic
   // (env level can override defaults)
-  const merged = deepMerge(defaultComp ?? {}, envComp ?? {});
-  return merged._regionAgnostic === true;
+  const merged = mergeComponentLayers(getTargetLayers(config, envSource, envName), componentName);
+  return merged?._regionAgnostic === true;
 }
 
 /**
@@ -56,12 +54,14 @@ function getComponentEnvAvailability(
   const envResult = checkComponentValidity(config, envSource, envName, null, componentName);
 
   // Check each region (only if not region-agnostic)
+  // Targets use the short codes of the environment's region catalog (and the config's region aliases)
   const regionResults: RegionalComponentValidity[] = [];
   if (!regionAgnostic) {
+    const catalog = getEnvironmentRegionCatalog(config, envName);
     for (const region of regions) {
       const regionResult = checkComponentValidity(config, envSource, envName, region, componentName);
       if (regionResult.valid) {
-        const regionShort = getRegionShortCode(region);
+        const regionShort = getRegionShortCode(region, catalog);
         regionResults.push({ region, valid: true, hasConfig: regionResult.hasConfig, target: `${envName}-${regionShort}` });
       } else {
         regionResults.push({ region, valid: false, reason: regionResult.reason });
@@ -72,13 +72,19 @@ function getComponentEnvAvailability(
   // Environment is available if env-level is valid OR any region is valid
   const anyRegionValid = regionResults.some(r => r.valid);
 
+  // Overrides of the environment that configure the component (applied to matching ephemeral instances)
+  const overrides = Object.entries(getEnvironmentOverrides(config, envName))
+    .filter(([, block]) => getBlockComponentNames(block, true).includes(componentName))
+    .map(([key]) => key);
+
   return {
     available: envResult.valid || anyRegionValid,
     envLevel: envResult.valid
       ? { valid: true, hasConfig: envResult.hasConfig, target: envName }
       : { valid: false, reason: envResult.reason },
     regions: regionResults.length > 0 ? regionResults : undefined,
-    regionAgnostic: regionAgnostic || undefined
+    regionAgnostic: regionAgnostic || undefined,
+    overrides: overrides.length > 0 ? overrides : undefined
   };
 }
 
@@ -94,8 +100,7 @@ export function checkComponentAvailability(
 
   if (envSource) {
     for (const envName of Object.keys(envSource)) {
-      const envConfig = envSource[envName];
-      const regions = envConfig?.regions ? Object.keys(envConfig.regions) : [];
+      const regions = getEnvironmentRegions(config, envSource, envName);
 
       const availability = getComponentEnvAvailability(config, envSource, envName, regions, componentName);
 
@@ -119,22 +124,40 @@ export function checkComponentValidity(
   region: string | null,
   componentName: string
 ): ComponentValidity {
-  const defaults = config.defaults ?? {};
-  const envConfig = envSource[envName] ?? {};
-  const regionConfig = region ? (envConfig.regions?.[region] ?? {}) : {};
+  // Target metadata for _when blocks and $if conditions (ephemeral template environments are ephemeral)
+  const catalog = envSource[envName] ? getEnvironmentRegionCatalog(config, envName) : getConfigRegionCatalog(config);
+  const ephemeralEnvironments = getEphemeralTemplateEnvironments(config);
+  const metadata: Record<string, ConfigValue> = {
+    env_name: envName,
+    env_config_name: envName,
+    region: region ?? '',
+    region_short: region ? getRegionShortCode(region, catalog) : '',
+    is_ephemeral: ephemeralEnvironments.includes(envName),
+  };
+
+  // Layers for this target (defaults -> base env(s) -> env, each followed by its region blocks), following _extends,
+  // with the _when blocks applied
+  const layers = applyLayerConditions(envSource[envName]
+    ? getTargetLayers(config, envSource, envName, region)
+    : [{ source: 'defaults', values: (config.defaults ?? {}) as Record<string, ConfigValue> }], metadata);
 
-  // Get component config at each level
-  const defaultComp = defaults[componentName] as ComponentConfig | undefined;
-  const envComp = envConfig[componentName] as ComponentConfig | undefined;
-  const regionComp = regionConfig[componentName] as ComponentConfig | undefined;
+  // Deep merge the component configs, applying component templates
+  // (a $unset marker at any level removes the inherited component)
+  const rawMerged = mergeComponentLayers(layers, componentName);
 
-  // Component must exist at some level
-  if (!defaultComp && !envComp && !regionComp) {
+  // Component must exist at some level, and abstract templates are never valid targets on their own
+  if (!rawMerged) {
     return { valid: false, reason: 'component_not_found' };
   }
+  if (rawMerged._abstract === true) {
+    return { valid: false, reason: 'component_abstract' };
+  }
 
-  // Deep merge the component configs
-  const merged = deepMerge(defaultComp ?? {}, envComp ?? {}, regionComp ?? {});
+  // Evaluate $if conditions against the target metadata
+  const merged = evaluateConditions({ [componentName]: rawMerged }, metadata)[componentName] as ComponentConfig | undefined;
+  if (!merged) {
+    return { valid: false, reason: 'condition_not_met' };
+  }
 
   // Check for null values
   const nullPath = findNullValue(merged as Record<string, ConfigValue>);
@@ -142,62 +165,106 @@ export function checkComponentValidity(
     return { valid: false, reason: `null_value_at_${nullPath}` };
   }
 
-  // Check if there's explicit config at this level (env or region)
-  const hasConfig = region
-    ? Boolean(regionComp && Object.keys(regionComp).length > 0)
-    : Boolean(envComp && Object.keys(envComp).length > 0);
+  // Check $required placeholders: they must be overridden, with a value of the right type and pattern
+  const requiredSpecs = (collectRequiredSpecs(layers)[componentName] ?? {}) as Record<string, ConfigValue>;
+  const requiredProblem = findRequiredValueProblem(merged as Record<string, ConfigValue>, requiredSpecs, '', { allowUnresolved: true });
+  if (requiredProblem) {
+    const description = requiredProblem.description ? `: ${requiredProblem.description}` : '';
+    return { valid: false, reason: `${requiredProblem.missing ? 'missing' : 'invalid'}_required_value_at_${requiredProblem.path}${description}` };
+  }
+
+  // Check that $ref values point at existing, non-null values in the full target configuration
+  const targetConfig = evaluateConditions(mergeTargetLayers(layers), metadata);
+  const brokenReference = findBrokenReference(merged as Record<string, ConfigValue>, targetConfig);
+  if (brokenReference) {
+    return { valid: false, reason: `${brokenReference.reason}_reference_at_${brokenReference.path}` };
+  }
+
+  // Check if there's explicit config at this level (the environment's own env block, or its region blocks
+  // including matching region groups and patterns)
+  const levelSource = `environments.${envName}`;
+  const hasConfig = layers
+    .filter(l => (region ? l.source.startsWith(`${levelSource}.regions.`) : l.source === levelSource))
+    .some(l => {
+      const comp = l.values[componentName];
+      return Boolean(comp && typeof comp === 'object' && Object.keys(comp).length > 0);
+    });
 
   return { valid: true, hasConfig };
 }
 
+function isComponentValue(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !isUnsetMarker(value as ConfigValue);
+}
+
 /**
- * Get all component names from the config.
- * Extracts from defaults, environment-level, and region-level configs.
+ * Get the overrides of an environment. Only ephemeral template environments have overrides; elsewhere `overrides`
+ * is an ordinary component.
  */
-export function getAllComponentNames(config: DeploymentConfig): string[] {
+function getEnvironmentOverrides(config: DeploymentConfig, envName: string): Record<string, EnvironmentConfig> {
+  const envConfig = config.environments?.[envName];
+  return envConfig?.overrides && getEphemeralTemplateEnvironments(config).includes(envName) ? envConfig.overrides : {};
+}
+
+/**
+ * Get the component names an environment block (or one of its overrides) configures, at env or region level.
+ * The `overrides` key is only reserved in ephemeral template environments and their overrides.
+ */
+function getBlockComponentNames(envConfig: EnvironmentConfig, isTemplate: boolean): string[] {
+  const reservedKeys = new Set(isTemplate ? ['regions', 'overrides', 'accountId'] : ['regions', 'accountId']);
   const keys = new Set<string>();
-  const reservedKeys = new Set(['regions', 'accountId']);
 
-  // From defaults
-  if (config.defaults) {
-    for (const key of Object.keys(config.defaults)) {
+  // Environment-level components
+  for (const key of Object.keys(envConfig)) {
+    if (reservedKeys.has(key)) continue;
+    if (isComponentValue(envConfig[key])) {
       keys.add(key);
     }
   }
 
-  // From environments
-  const envSource = config.environments;
-  if (envSource) {
-    for (const envName of Object.keys(envSource)) {
-      const envConfig = envSource[envName];
-      if (!envConfig) continue;
-
-      // Environment-level components
-      for (const key of Object.keys(envConfig)) {
-        if (reservedKeys.has(key)) continue;
-        const value = envConfig[key];
-        if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-          keys.add(key);
-        }
+  // Region-level components
+  for (const regionConfig of Object.values(envConfig.regions ?? {})) {
+    for (const [key, value] of Object.entries(regionConfig ?? {})) {
+      if (isComponentValue(value)) {
+        keys.add(key);
       }
+    }
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Get all component names from the config.
+ * Extracts from defaults, environment-level, region-level and override configs.
+ */
+export function getAllComponentNames(config: DeploymentConfig): string[] {
+  const keys = new Set<string>();
 
-      // Region-level components
-      if (envConfig.regions) {
-        for (const region of Object.keys(envConfig.regions)) {
-          const regionConfig = envConfig.regions[region];
-          if (!regionConfig) continue;
-          for (const key of Object.keys(regionConfig)) {
-            const value = regionConfig[key];
-            if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-              keys.add(key);
-            }
-          }
-        }
+  // From defaults (abstract component templates are only inherited from, never listed)
+  const abstractKeys = new Set<string>();
+  if (config.defaults) {
+    for (const [key, value] of Object.entries(config.defaults)) {
+      if (isUnsetMarker(value)) continue;
+      if (value?._abstract === true) {
+        abstractKeys.add(key);
+        continue;
       }
+      keys.add(key);
     }
   }
 
-  return Array.from(keys);
+  // From environments and their overrides
+  const templateEnvs = getEphemeralTemplateEnvironments(config);
+  for (const [envName, envConfig] of Object.entries(config.environments ?? {})) {
+    if (!envConfig) continue;
+    getBlockComponentNames(envConfig, templateEnvs.includes(envName)).forEach(key => keys.add(key));
+    for (const override of Object.values(getEnvironmentOverrides(config, envName))) {
+      getBlockComponentNames(override, true).forEach(key => keys.add(key));
+    }
+  }
+
+  return Array.from(keys).filter(key => !abstractKeys.has(key));
 }
 
 /**
@@ -220,8 +287,7 @@ export function checkAllComponentsAvailability(
   }
 
   for (const envName of Object.keys(envSource)) {
-    const envConfig = envSource[envName];
-    const regions = envConfig?.regions ? Object.keys(envConfig.regions) : [];
+    const regions = getEnvironmentRegions(config, envSource, envName);
 
     const components: ComponentEnvLevelAvailability[] = [];
 
@@ -235,11 +301,13 @@ export function checkAllComponentsAvailability(
     }
 
     const anyComponentValid = components.some(c => c.available);
+    const overrides = Object.keys(getEnvironmentOverrides(config, envName));
 
     environments.push({
       environment: envName,
       valid: anyComponentValid,
-      components
+      components,
+      overrides: overrides.length > 0 ? overrides : undefined
     });
   }
 
@@ -0,0 +1,119 @@
+import { isPlainObject, isValueDirective } from './utils.js';
+import type { ConfigLayer } from './layers.js';
+import type { ConfigValue } from '../types/index.js';
+
+// Target metadata keys that conditions can test
+const CONDITION_KEYS = ['env_name', 'env_config_name', 'region', 'region_short', 'is_ephemeral'];
+
+/**
+ * Check whether a value is a `{ "$if": { ... }, "then": ..., "else": ... }` conditional value.
+ */
+export function isConditionalValue(value: unknown): boolean {
+  return isPlainObject(value) && value.$if !== undefined;
+}
+
+/**
+ * Check a condition against the target metadata. Every key must match: a scalar must be equal to the metadata value,
+ * and a list matches when any of its entries is equal.
+ */
+export function matchesCondition(
+  condition: ConfigValue,
+  metadata: Record<string, ConfigValue>,
+  path: string
+): boolean {
+  if (!isPlainObject(condition)) {
+    throw new Error(`Invalid condition at path: ${path}. Expected an object of metadata keys to values`);
+  }
+  return Object.entries(condition).every(([key, expected]) => {
+    if (!CONDITION_KEYS.includes(key)) {
+      throw new Error(`Unknown condition key '${key}' at path: ${path}. Expected one of: ${CONDITION_KEYS.join(', ')}`);
+    }
+    const actual = metadata[key];
+    return Array.isArray(expected) ? expected.includes(actual) : expected === actual;
+  });
+}
+
+/**
+ * Apply the `_when` blocks of a value for the target metadata. An object with a `_when` condition is a conditional
+ * override block: when the condition matches it is kept without `_when`, otherwise it is emptied, so it adds nothing
+ * to the value it merges into while the enclosing object or component stays present. List items whose `_when`
+ * doesn't match are dropped.
+ */
+export function applyWhenBlocks(
+  obj: Record<string, ConfigValue>,
+  metadata: Record<string, ConfigValue>,
+  path: string = ''
+): Record<string, ConfigValue> {
+  return Object.fromEntries(Object.entries(obj).map(([key, value]) =>
+    [key, applyWhenValue(value, metadata, path ? `${path}.${key}` : key)]));
+}
+
+function applyWhenValue(value: ConfigValue, metadata: Record<string, ConfigValue>, path: string): ConfigValue {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => isPlainObject(item) && item._when !== undefined
+      && !matchesCondition(item._when, metadata, `${path}.${index}._when`)
+      ? []
+      : [applyWhenValue(item, metadata, `${path}.${index}`)]);
+  }
+  if (!isPlainObject(value) || isValueDirective(value)) {
+    // Value directives ($if, $ref, $secret, ...) are resolved after the merge
+    return value;
+  }
+  if (value._when !== undefined) {
+    if (!matchesCondition(value._when, metadata, `${path}._when`)) {
+      return {};
+    }
+    const { _when, ...rest } = value;
+    return applyWhenBlocks(rest, metadata, path);
+  }
+  return applyWhenBlocks(value, metadata, path);
+}
+
+/**
+ * Apply the `_when` blocks of every layer for the target metadata (see applyWhenBlocks), before the layers are
+ * merged, so a conditional block only overrides earlier layers when its condition matches.
+ */
+export function applyLayerConditions(layers: ConfigLayer[], metadata: Record<string, ConfigValue>): ConfigLayer[] {
+  return layers.map(layer => ({ source: layer.source, values: applyWhenBlocks(layer.values, metadata) }));
+}
+
+/**
+ * Evaluate the `$if` values of merged configuration against the target metadata (env_name, env_config_name, region,
+ * region_short, is_ephemeral): `{ "$if": { ... }, "then": a, "else": b }` is replaced by `a` or `b`; without a
+ * matching branch the key is removed. Values inside arrays are evaluated the same way.
+ */
+export function evaluateConditions(
+  obj: Record<string, ConfigValue>,
+  metadata: Record<string, ConfigValue>,
+  path: string = ''
+): Record<string, ConfigValue> {
+  const result: Record<string, ConfigValue> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const evaluated = evaluateValue(value, metadata, path ? `${path}.${key}` : key);
+    if (evaluated !== undefined) {
+      result[key] = evaluated;
+    }
+  }
+  return result;
+}
+
+function evaluateValue(value: ConfigValue, metadata: Record<string, ConfigValue>, path: string): ConfigValue {
+  if (Array.isArray(value)) {
+    return value
+      .map((item, index) => evaluateValue(item, metadata, `${path}.${index}`))
+      .filter(item => item !== undefined);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  if (isConditionalValue(value)) {
+    const branch = matchesCondition(value.$if, metadata, path) ? value.then : value.else;
+    // A branch is only known after the merge, so its _when blocks are applied here
+    return branch === undefined ? undefined : evaluateValue(applyWhenValue(branch, metadata, path), metadata, path);
+  }
+  if (isValueDirective(value)) {
+    // Other value directives ($ref, $secret, $required, ...) are resolved later
+    return value;
+  }
+  return evaluateConditions(value, metadata, path);
+}
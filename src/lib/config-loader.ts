@@ -0,0 +1,261 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import JSON5 from 'json5';
+import { isPlainObject, isValueDirective, matchesWildcard } from './utils.js';
+import type { DeploymentConfig, ConfigValue } from '../types/index.js';
+
+type ConfigObject = { [key: string]: ConfigValue };
+
+// Configuration directory layout
+const CONFIG_FILE_EXTENSION = '.json5';
+const ROOT_FILE = 'config.json5';
+const DEFAULTS_FILE = 'defaults.json5';
+const ENVIRONMENTS_DIR = 'environments';
+const REGIONS_DIR = 'regions';
+
+/**
+ * Overlay one parsed object onto another without applying any merge semantics ($unset, _replace, _arrayMerge),
+ * so that those markers survive until the configuration layers are merged.
+ */
+function overlay(base: ConfigObject, override: ConfigObject): ConfigObject {
+  const result: ConfigObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = result[key];
+    result[key] = isPlainObject(value) && isPlainObject(baseValue) && !isValueDirective(value) && !isValueDirective(baseValue)
+      ? overlay(baseValue, value)
+      : value;
+  }
+  return result;
+}
+
+/**
+ * Expand an include entry into file paths. A `*` wildcard is supported in the file name segment
+ * (e.g. './components/*.json5'); matches are returned in alphabetical order.
+ */
+function expandIncludePattern(pattern: string, baseDir: string): string[] {
+  const resolved = path.resolve(baseDir, pattern);
+  const fileName = path.basename(resolved);
+  if (!fileName.includes('*')) {
+    return [resolved];
+  }
+
+  const dir = path.dirname(resolved);
+  if (dir.includes('*')) {
+    throw new Error(`Invalid include pattern '${pattern}': wildcards are only supported in the file name`);
+  }
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter(entry => matchesWildcard(fileName, entry))
+    .sort()
+    .map(entry => path.join(dir, entry));
+}
+
+function readConfigFile(filePath: string, includedFrom: string | undefined): ConfigValue {
+  try {
+    return JSON5.parse(fs.readFileSync(filePath, 'utf8')) as ConfigValue;
+  } catch (error) {
+    const err = error as Error;
+    const origin = includedFrom ? ` (included from '${includedFrom}')` : '';
+    throw new Error(`Failed to load config file '${filePath}'${origin}: ${err.message}`);
+  }
+}
+
+/**
+ * Load a JSON5 file and resolve its `_include` directives.
+ * Returns the parsed content with all includes merged in. When `origins` is given, the file that defines each
+ * leaf value is recorded under the value's dot-notation path in the configuration (starting at `keyPath`).
+ */
+function loadFile(filePath: string, stack: string[], keyPath: string, origins?: Map<string, string>): ConfigValue {
+  if (stack.includes(filePath)) {
+    throw new Error(`Include cycle detected: ${[...stack.slice(stack.indexOf(filePath)), filePath].join(' -> ')}`);
+  }
+  const parsed = readConfigFile(filePath, stack[stack.length - 1]);
+  return resolveIncludes(parsed, filePath, [...stack, filePath], keyPath, origins);
+}
+
+/**
+ * Recursively resolve `_include` keys in a parsed value. Included files are merged in the listed order,
+ * then the including object's own keys are applied on top.
+ */
+function resolveIncludes(
+  value: ConfigValue,
+  filePath: string,
+  stack: string[],
+  keyPath: string,
+  origins?: Map<string, string>
+): ConfigValue {
+  if (!isPlainObject(value) || isValueDirective(value)) {
+    origins?.set(keyPath, filePath);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveIncludes(item, filePath, stack, `${keyPath}.${index}`));
+  }
+  if (!isPlainObject(value) || isValueDirective(value)) {
+    return value;
+  }
+
+  const { _include: include, ...rest } = value;
+  let result: ConfigObject = {};
+
+  if (include !== undefined) {
+    const patterns = Array.isArray(include) ? include : [include];
+    for (const pattern of patterns) {
+      if (typeof pattern !== 'string') {
+        throw new Error(`Invalid _include entry in '${filePath}': expected a file path or list of file paths`);
+      }
+      const files = expandIncludePattern(pattern, path.dirname(filePath));
+      if (files.length === 0) {
+        throw new Error(`Include pattern '${pattern}' in '${filePath}' did not match any files`);
+      }
+      for (const includedFile of files) {
+        const included = loadFile(includedFile, stack, keyPath, origins);
+        if (!isPlainObject(included)) {
+          throw new Error(`Included file '${includedFile}' (included from '${filePath}') must contain an object`);
+        }
+        result = overlay(result, included);
+      }
+    }
+  }
+
+  const own: ConfigObject = {};
+  for (const [key, child] of Object.entries(rest)) {
+    own[key] = resolveIncludes(child, filePath, stack, keyPath ? `${keyPath}.${key}` : key, origins);
+  }
+  return overlay(result, own);
+}
+
+function loadObjectFile(filePath: string, keyPath: string = '', origins?: Map<string, string>): ConfigObject {
+  const loaded = loadFile(filePath, [], keyPath, origins);
+  if (!isPlainObject(loaded)) {
+    throw new Error(`Config file '${filePath}' must contain an object`);
+  }
+  return loaded;
+}
+
+function listJson5Files(dirPath: string): string[] {
+  if (!fs.existsSync(dirPath)) {
+    return [];
+  }
+  return fs.readdirSync(dirPath)
+    .filter(entry => entry.endsWith(CONFIG_FILE_EXTENSION) && fs.statSync(path.join(dirPath, entry)).isFile())
+    .sort()
+    .map(entry => entry.slice(0, -CONFIG_FILE_EXTENSION.length));
+}
+
+/**
+ * Assemble a configuration directory into a single configuration object.
+ * Layout: `config.json5` (optional, other top-level keys such as regionGroups), `defaults.json5`,
+ * `environments/<env>.json5` and `environments/<env>/regions/<region>.json5`.
+ * Region files are merged over any `regions` declared in the environment file.
+ */
+function loadConfigDirectory(dirPath: string, origins?: Map<string, string>): DeploymentConfig {
+  const rootFile = path.join(dirPath, ROOT_FILE);
+  let config: ConfigObject = fs.existsSync(rootFile) ? loadObjectFile(rootFile, '', origins) : {};
+
+  const defaultsFile = path.join(dirPath, DEFAULTS_FILE);
+  if (fs.existsSync(defaultsFile)) {
+    config = overlay(config, { defaults: loadObjectFile(defaultsFile, 'defaults', origins) });
+  }
+
+  const environmentsDir = path.join(dirPath, ENVIRONMENTS_DIR);
+  if (fs.existsSync(environmentsDir)) {
+    const envNames = new Set(listJson5Files(environmentsDir));
+    for (const entry of fs.readdirSync(environmentsDir)) {
+      if (fs.statSync(path.join(environmentsDir, entry)).isDirectory()) {
+        envNames.add(entry);
+      }
+    }
+
+    const environments: ConfigObject = {};
+    for (const envName of Array.from(envNames).sort()) {
+      const envFile = path.join(environmentsDir, `${envName}${CONFIG_FILE_EXTENSION}`);
+      let envConfig: ConfigObject = fs.existsSync(envFile) ? loadObjectFile(envFile, `environments.${envName}`, origins) : {};
+
+      const regionsDir = path.join(environmentsDir, envName, REGIONS_DIR);
+      const regions: ConfigObject = {};
+      for (const regionName of listJson5Files(regionsDir)) {
+        const regionFile = path.join(regionsDir, `${regionName}${CONFIG_FILE_EXTENSION}`);
+        regions[regionName] = loadObjectFile(regionFile, `environments.${envName}.regions.${regionName}`, origins);
+      }
+      if (Object.keys(regions).length > 0) {
+        envConfig = overlay(envConfig, { regions });
+      }
+      environments[envName] = envConfig;
+    }
+    config = overlay(config, { environments });
+  }
+
+  return config as DeploymentConfig;
+}
+
+/**
+ * Load a deployment configuration from a JSON5 file or a configuration directory.
+ * `_include` (a path or list of paths, relative to the including file, with `*` wildcards in the file name)
+ * can appear at any level of any file to merge other files into that object.
+ * Include cycles are detected, and errors report the file that failed to load.
+ * When `origins` is given, it is filled with the file that defines each leaf value, keyed by the value's
+ * dot-notation path in the configuration (e.g. 'environments.dev.network.vpc_cidr').
+ */
+export function loadConfigFile(configPath: string, origins?: Map<string, string>): DeploymentConfig {
+  const resolved = path.resolve(configPath);
+  if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+    return loadConfigDirectory(resolved, origins);
+  }
+  return loadObjectFile(resolved, '', origins) as DeploymentConfig;
+}
+
+/**
+ * Get the directory that paths in a configuration resolve against: the config directory itself,
+ * or the directory containing the config file.
+ */
+export function getConfigBaseDir(configPath: string): string {
+  const resolved = path.resolve(configPath);
+  return fs.existsSync(resolved) && fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved);
+}
+
+/**
+ * Load an overlay file: component and global values applied on top of a resolved target.
+ */
+export function loadOverlayFile(overlayPath: string): Record<string, ConfigValue> {
+  return loadObjectFile(path.resolve(overlayPath));
+}
+
+function writeJson5File(filePath: string, value: ConfigValue): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Write a configuration object out as a configuration directory (the inverse of loading one).
+ * Top-level keys other than defaults and environments are written to `config.json5`.
+ */
+export function writeConfigDirectory(config: DeploymentConfig, dirPath: string): void {
+  const resolved = path.resolve(dirPath);
+  if (fs.existsSync(resolved) && !fs.statSync(resolved).isDirectory()) {
+    throw new Error(`Output path '${resolved}' exists and is not a directory`);
+  }
+
+  const { defaults, environments, ...rest } = config as ConfigObject;
+  if (Object.keys(rest).length > 0) {
+    writeJson5File(path.join(resolved, ROOT_FILE), rest);
+  }
+  if (defaults !== undefined) {
+    writeJson5File(path.join(resolved, DEFAULTS_FILE), defaults);
+  }
+  if (isPlainObject(environments)) {
+    for (const [envName, envConfig] of Object.entries(environments)) {
+      if (!isPlainObject(envConfig)) {
+        throw new Error(`Environment '${envName}' must be an object`);
+      }
+      const { regions, ...envValues } = envConfig;
+      writeJson5File(path.join(resolved, ENVIRONMENTS_DIR, `${envName}${CONFIG_FILE_EXTENSION}`), envValues);
+      if (isPlainObject(regions)) {
+        for (const [regionName, regionConfig] of Object.entries(regions)) {
+          writeJson5File(path.join(resolved, ENVIRONMENTS_DIR, envName, REGIONS_DIR, `${regionName}${CONFIG_FILE_EXTENSION}`), regionConfig);
+        }
+      }
+    }
+  }
+}
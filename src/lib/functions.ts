@@ -0,0 +1,120 @@
+import type { ConfigFunction, ConfigValue } from '../types/index.js';
+
+function parseIpv4Cidr(cidr: ConfigValue): { address: number; prefix: number } {
+  const match = typeof cidr === 'string' ? /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(cidr) : null;
+  const octets = match ? match.slice(1, 5).map(Number) : [];
+  const prefix = match ? Number(match[5]) : NaN;
+  if (!match || octets.some(octet => octet > 255) || prefix > 32) {
+    throw new Error(`Invalid IPv4 CIDR '${String(cidr)}'`);
+  }
+  const address = octets.reduce((acc, octet) => acc * 256 + octet, 0);
+  // Reduce to the network address
+  const hostSize = 2 ** (32 - prefix);
+  return { address: Math.floor(address / hostSize) * hostSize, prefix };
+}
+
+function formatIpv4(address: number): string {
+  return [24, 16, 8, 0].map(shift => Math.floor(address / 2 ** shift) % 256).join('.');
+}
+
+function toInteger(value: ConfigValue, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new Error(`${name} must be an integer, got '${String(value)}'`);
+  }
+  return value;
+}
+
+function toText(value: ConfigValue, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${name} must be a string, got '${String(value)}'`);
+  }
+  return value;
+}
+
+/**
+ * cidrsubnet(prefix, newbits, netnum): the netnum-th subnet of prefix with newbits added to its prefix length
+ * (as in Terraform), e.g. cidrsubnet("10.0.0.0/16", 8, 2) = "10.0.2.0/24".
+ */
+const cidrsubnet: ConfigFunction = ([prefix, newbits, netnum]) => {
+  const { address, prefix: length } = parseIpv4Cidr(prefix ?? null);
+  const bits = toInteger(newbits ?? null, 'newbits');
+  const index = toInteger(netnum ?? null, 'netnum');
+  const newLength = length + bits;
+  if (bits < 0 || newLength > 32) {
+    throw new Error(`Cannot extend prefix /${length} by ${bits} bits`);
+  }
+  if (index < 0 || index >= 2 ** bits) {
+    throw new Error(`netnum ${index} does not fit in ${bits} bits`);
+  }
+  return `${formatIpv4(address + index * 2 ** (32 - newLength))}/${newLength}`;
+};
+
+/**
+ * cidrhost(prefix, hostnum): the address of host number hostnum in prefix; negative numbers count from the end,
+ * e.g. cidrhost("10.0.1.0/24", 5) = "10.0.1.5".
+ */
+const cidrhost: ConfigFunction = ([prefix, hostnum]) => {
+  const { address, prefix: length } = parseIpv4Cidr(prefix ?? null);
+  const size = 2 ** (32 - length);
+  const index = toInteger(hostnum ?? null, 'hostnum');
+  const offset = index < 0 ? size + index : index;
+  if (offset < 0 || offset >= size) {
+    throw new Error(`hostnum ${index} does not fit in prefix /${length}`);
+  }
+  return formatIpv4(address + offset);
+};
+
+/**
+ * azs(count): availability zone names for the target region, in the form of the target's cloud provider:
+ * letter suffixes on AWS (us-west-2a, us-west-2b), lettered zones on GCP (us-central1-a, us-central1-b) and the
+ * zone numbers on Azure ('1', '2', '3').
+ * The count can also be given as a `count` parameter, and the region as a second argument or a `region` parameter.
+ */
+const azs: ConfigFunction = (args, { params, target, provider }) => {
+  const count = toInteger(args[0] ?? params.count ?? null, 'count');
+  const region = toText(args[1] ?? params.region ?? target.region ?? null, 'region');
+  if (region === '') {
+    throw new Error('azs requires a region; resolve a regional target or pass a region');
+  }
+  const maxCount = provider === 'azure' ? 3 : 26;
+  if (count < 1 || count > maxCount) {
+    throw new Error(`count must be between 1 and ${maxCount}, got ${count}`);
+  }
+  return Array.from({ length: count }, (_, index) => {
+    const letter = String.fromCharCode(97 + index);
+    switch (provider) {
+      case 'gcp':
+        return `${region}-${letter}`;
+      case 'azure':
+        return String(index + 1);
+      default:
+        return `${region}${letter}`;
+    }
+  });
+};
+
+/**
+ * join(separator, list): list items joined into a string.
+ */
+const join: ConfigFunction = ([separator, list]) => {
+  if (!Array.isArray(list) || list.some(item => item !== null && typeof item === 'object')) {
+    throw new Error('join expects a list of scalar values');
+  }
+  return list.join(toText(separator ?? null, 'separator'));
+};
+
+const upper: ConfigFunction = ([value]) => toText(value ?? null, 'value').toUpperCase();
+
+const lower: ConfigFunction = ([value]) => toText(value ?? null, 'value').toLowerCase();
+
+/**
+ * Functions available to `{ "$fn": ... }` values by default
+ */
+export const builtinFunctions: Record<string, ConfigFunction> = {
+  cidrsubnet,
+  cidrhost,
+  azs,
+  join,
+  upper,
+  lower,
+};
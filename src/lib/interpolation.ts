@@ -0,0 +1,244 @@
+import { findNullValue, isEnvVarAllowed } from './utils.js';
+import { getSecretReference } from './secrets.js';
+import { findMissingRequiredValue, isRequiredPlaceholder } from './required.js';
+import { builtinFunctions } from './functions.js';
+import type { ConfigFunction, ConfigValue, RegionProvider } from '../types/index.js';
+
+// Matches ${path} placeholders, plus the $${path} escape for a literal '${path}'
+const PLACEHOLDER_PATTERN = /\$?\$\{([^}]*)\}/g;
+
+// Matches the body of an environment variable placeholder: env:NAME or env:NAME:-default
+const ENV_PLACEHOLDER_PATTERN = /^env:([A-Za-z_][A-Za-z0-9_]*)(?::-(.*))?$/s;
+
+/**
+ * Options for interpolateConfig
+ */
+export interface InterpolationOptions {
+  /** Environment variables that `${env:NAME}` placeholders may read: exact names or prefixes ending in '*' */
+  allowedEnvVars?: string[];
+  /** Source of environment variable values (default: process.env) */
+  envVars?: Record<string, string | undefined>;
+  /** Resolve a `{ "$secret": "<scheme>:<reference>" }` value found at the given path */
+  resolveSecret?: (reference: string, path: string) => string;
+  /** Functions callable from `{ "$fn": "<name>", "args": [...] }` values (default: the built-in functions) */
+  functions?: Record<string, ConfigFunction>;
+  /** Cloud provider of the target's region catalog, passed to functions (default: 'aws') */
+  provider?: RegionProvider;
+}
+
+/**
+ * Look up a dot-notation path in a config object. Numeric segments index into arrays.
+ */
+function getValueAtPath(obj: Record<string, ConfigValue>, keyPath: string): ConfigValue {
+  let current: ConfigValue = obj;
+  for (const segment of keyPath.split('.')) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (current && typeof current === 'object' && !Array.isArray(current) && Object.hasOwn(current, segment)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Get the target path of a `{ "$ref": "<path>" }` value, or undefined if the value is not a reference.
+ */
+function getReferencePath(value: ConfigValue): string | undefined {
+  if (value && typeof value === 'object' && !Array.isArray(value) && typeof value.$ref === 'string') {
+    return value.$ref;
+  }
+  return undefined;
+}
+
+/**
+ * Find the first `$ref` value in an object that cannot be satisfied by the context.
+ * A reference is broken when its target is missing (e.g. the component does not exist for this target)
+ * or is/contains a null value or unset `$required` placeholder. Chained references are followed.
+ */
+export function findBrokenReference(
+  obj: Record<string, ConfigValue>,
+  context: Record<string, ConfigValue>,
+  path: string = ''
+): { path: string; reason: 'missing' | 'null' } | null {
+  for (const [key, value] of Object.entries(obj)) {
+    const currentPath = path ? `${path}.${key}` : key;
+    let refPath = getReferencePath(value);
+    if (refPath !== undefined) {
+      const visited = new Set<string>();
+      let target: ConfigValue = value;
+      while (refPath !== undefined && !visited.has(refPath)) {
+        visited.add(refPath);
+        target = getValueAtPath(context, refPath);
+        refPath = getReferencePath(target);
+      }
+      if (target === undefined) {
+        return { path: currentPath, reason: 'missing' };
+      }
+      if (
+        target === null ||
+        isRequiredPlaceholder(target) ||
+        (typeof target === 'object' && !Array.isArray(target) && (findNullValue(target) || findMissingRequiredValue(target)))
+      ) {
+        return { path: currentPath, reason: 'null' };
+      }
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const broken = findBrokenReference(value, context, currentPath);
+      if (broken) return broken;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve `${...}` placeholders and `{ "$ref": "<path>" }` references in a configuration object.
+ *
+ * Both are dot-notation paths looked up in `context`, which holds the dynamic target metadata
+ * (env_name, region, ...) and the merged configuration. A `$ref` value is replaced by the referenced value.
+ * Referenced values may contain placeholders or references themselves; cycles are detected and reported.
+ * A string consisting of a single placeholder takes the referenced value as-is (keeping numbers, booleans,
+ * arrays and objects); placeholders embedded in longer strings must resolve to scalar values.
+ * Use `$${...}` for a literal `${...}`.
+ *
+ * `${env:NAME}` reads an environment variable and `${env:NAME:-default}` falls back to a default when it is unset.
+ * Only variables matched by `allowedEnvVars` can be read, so a config file can't expose arbitrary secrets.
+ * `{ "$secret": "<scheme>:<reference>" }` values are passed to `resolveSecret`, and
+ * `{ "$fn": "<name>", "args": [...] }` values are replaced by the result of the named function.
+ */
+export function interpolateConfig(
+  target: Record<string, ConfigValue>,
+  context: Record<string, ConfigValue>,
+  options: InterpolationOptions = {}
+): Record<string, ConfigValue> {
+  const { allowedEnvVars = [], envVars = process.env, resolveSecret, functions = builtinFunctions, provider = 'aws' } = options;
+  const resolvedPaths = new Map<string, ConfigValue>();
+  const resolving: string[] = [];
+
+  function resolveEnvVar(expression: string, fromPath: string): string {
+    const match = ENV_PLACEHOLDER_PATTERN.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid environment variable placeholder '\${${expression}}' at path: ${fromPath}`);
+    }
+    const name = match[1]!;
+    const defaultValue = match[2];
+    if (!isEnvVarAllowed(name, allowedEnvVars)) {
+      throw new Error(`Environment variable '${name}' at path: ${fromPath} is not allowed. Add it to the allowed environment variables to use it`);
+    }
+    const value = envVars[name];
+    if (value !== undefined) {
+      return value;
+    }
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    throw new Error(`Environment variable '${name}' at path: ${fromPath} is not set and has no default`);
+  }
+
+  function resolveReference(refPath: string, fromPath: string, label: string): ConfigValue {
+    if (resolvedPaths.has(refPath)) {
+      return resolvedPaths.get(refPath);
+    }
+    if (resolving.includes(refPath)) {
+      const cycle = [...resolving.slice(resolving.indexOf(refPath)), refPath].join(' -> ');
+      throw new Error(`Circular reference at path: ${fromPath} (${cycle})`);
+    }
+
+    const rawValue = getValueAtPath(context, refPath);
+    if (rawValue === undefined) {
+      throw new Error(`Unresolvable ${label} at path: ${fromPath}`);
+    }
+    if (rawValue === null) {
+      throw new Error(`Unresolvable ${label} at path: ${fromPath} (referenced value is null)`);
+    }
+    if (isRequiredPlaceholder(rawValue)) {
+      throw new Error(`Unresolvable ${label} at path: ${fromPath} (referenced value is a required value that is not set)`);
+    }
+
+    resolving.push(refPath);
+    const value = resolveValue(rawValue, refPath);
+    resolving.pop();
+    resolvedPaths.set(refPath, value);
+    return value;
+  }
+
+  function resolveString(str: string, path: string): ConfigValue {
+    const whole = /^\$\{([^}]*)\}$/.exec(str);
+    if (whole) {
+      const expression = whole[1]!.trim();
+      return expression.startsWith('env:')
+        ? resolveEnvVar(expression, path)
+        : resolveReference(expression, path, `placeholder '${str}'`);
+    }
+
+    return str.replace(PLACEHOLDER_PATTERN, (match: string, refPath: string) => {
+      if (match.startsWith('$$')) {
+        return match.slice(1);
+      }
+      if (refPath.trim().startsWith('env:')) {
+        return resolveEnvVar(refPath.trim(), path);
+      }
+      const value = resolveReference(refPath.trim(), path, `placeholder '\${${refPath.trim()}}'`);
+      if (typeof value === 'object') {
+        throw new Error(`Placeholder '\${${refPath.trim()}}' at path: ${path} resolves to a non-scalar value and cannot be embedded in a string`);
+      }
+      return String(value);
+    });
+  }
+
+  function resolveValue(value: ConfigValue, path: string): ConfigValue {
+    if (typeof value === 'string') {
+      return value.includes('${') ? resolveString(value, path) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => resolveValue(item, `${path}.${index}`));
+    }
+    const refPath = getReferencePath(value);
+    if (refPath !== undefined) {
+      return resolveReference(refPath, path, `$ref '${refPath}'`);
+    }
+    if (value && typeof value === 'object' && value.$fn !== undefined) {
+      return callFunction(value, path);
+    }
+    const secretReference = getSecretReference(value);
+    if (secretReference !== undefined) {
+      if (!resolveSecret) {
+        throw new Error(`Secret at path: ${path} cannot be resolved: no secret providers are configured`);
+      }
+      return resolveSecret(secretReference, path);
+    }
+    if (value && typeof value === 'object') {
+      return resolveObject(value, path);
+    }
+    return value;
+  }
+
+  function callFunction(call: Record<string, ConfigValue>, path: string): ConfigValue {
+    const { $fn: name, args = [], ...params } = call;
+    if (typeof name !== 'string' || !Object.hasOwn(functions, name)) {
+      throw new Error(`Unknown function '${String(name)}' at path: ${path}. Available functions: ${Object.keys(functions).join(', ')}`);
+    }
+    const resolvedArgs = resolveValue(args, `${path}.args`);
+    if (!Array.isArray(resolvedArgs)) {
+      throw new Error(`Function '${name}' at path: ${path} expects 'args' to be a list`);
+    }
+    const resolvedParams = resolveObject(params, path);
+    try {
+      return functions[name]!(resolvedArgs, { path, params: resolvedParams, target: context, provider });
+    } catch (error) {
+      const err = error as Error;
+      throw new Error(`Function '${name}' at path: ${path} failed: ${err.message}`);
+    }
+  }
+
+  function resolveObject(obj: Record<string, ConfigValue>, path: string): Record<string, ConfigValue> {
+    const result: Record<string, ConfigValue> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      result[key] = resolveValue(value, path ? `${path}.${key}` : key);
+    }
+    return result;
+  }
+
+  return resolveObject(target, '');
+}
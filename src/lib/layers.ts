@@ -0,0 +1,260 @@
+import { deepMerge, matchesWildcard, mergeKeyAcrossLayers } from './utils.js';
+import type {
+  DeploymentConfig,
+  EnvironmentConfig,
+  ComponentConfig,
+  RegionConfig,
+  ConfigValue,
+} from '../types/index.js';
+
+/**
+ * A single layer of configuration that takes part in resolving a target, in merge order.
+ */
+export interface ConfigLayer {
+  /** Where the layer comes from, e.g. 'defaults', 'environments.dev' or 'environments.dev.regions.us-west-2' */
+  source: string;
+  /** Component and global values defined by the layer (region blocks are split out into their own layers) */
+  values: Record<string, ConfigValue>;
+}
+
+/**
+ * An instance of an ephemeral environment: the name derived from the branch, matched against the environment's
+ * `overrides`, and optionally a base environment that replaces the environment's `_baseEnvironment`.
+ */
+export interface EphemeralInstance {
+  name: string;
+  baseEnvironment?: string;
+}
+
+/**
+ * Resolve the inheritance chain of an environment through its `_baseEnvironment` and `_extends` keys.
+ * Returns environment names ordered from the most basic ancestor to the environment itself.
+ * The base environment comes first, then each `_extends` base's chain in the listed order; shared ancestors
+ * appear once. `baseEnvironment` replaces the `_baseEnvironment` of the environment itself (not of its bases).
+ */
+export function resolveEnvironmentChain(
+  envSource: Record<string, EnvironmentConfig>,
+  envName: string,
+  baseEnvironment?: string
+): string[] {
+  const chain: string[] = [];
+
+  function visit(name: string, stack: string[]): void {
+    if (stack.includes(name)) {
+      throw new Error(`Environment inheritance cycle detected: ${[...stack.slice(stack.indexOf(name)), name].join(' -> ')}`);
+    }
+    const envConfig = envSource[name];
+    if (!envConfig) {
+      const parent = stack[stack.length - 1];
+      throw new Error(parent
+        ? `Environment '${parent}' extends unknown environment '${name}'`
+        : `Environment '${name}' not found in config file`);
+    }
+
+    for (const base of getEnvironmentBases(envConfig, name, stack.length === 0 ? baseEnvironment : undefined)) {
+      visit(base, [...stack, name]);
+    }
+    if (!chain.includes(name)) {
+      chain.push(name);
+    }
+  }
+
+  visit(envName, []);
+  return chain;
+}
+
+function getEnvironmentBases(envConfig: EnvironmentConfig, envName: string, baseEnvironment?: string): string[] {
+  const base = baseEnvironment ?? envConfig._baseEnvironment;
+  if (base !== undefined && (typeof base !== 'string' || base === '')) {
+    throw new Error(`Environment '${envName}' has an invalid _baseEnvironment value. Expected an environment name`);
+  }
+  const bases = envConfig._extends;
+  const list = bases === undefined ? [] : Array.isArray(bases) ? bases : [bases];
+  if (list.some(base => typeof base !== 'string' || base === '')) {
+    throw new Error(`Environment '${envName}' has an invalid _extends value. Expected an environment name or a list of environment names`);
+  }
+  return base !== undefined ? [base, ...list as string[]] : list as string[];
+}
+
+/**
+ * Check whether a key in an environment's `regions` block is a wildcard pattern (e.g. 'eu-*').
+ */
+export function isRegionPattern(key: string): boolean {
+  return key.includes('*');
+}
+
+/**
+ * Check whether a key in an environment's `regions` block names a region group from `regionGroups`.
+ */
+export function isRegionGroup(config: DeploymentConfig, key: string): boolean {
+  return Boolean(config.regionGroups && Object.hasOwn(config.regionGroups, key));
+}
+
+/**
+ * Get the blocks of an environment's `regions` that apply to a region, in merge order:
+ * region groups containing the region, then matching wildcard patterns, then the exact region block.
+ * Within each kind, blocks are applied in the order they are declared.
+ */
+function getMatchingRegionBlocks(
+  config: DeploymentConfig,
+  envConfig: EnvironmentConfig,
+  region: string
+): [string, RegionConfig][] {
+  const entries = Object.entries(envConfig.regions ?? {});
+  const groups = entries.filter(([key]) => isRegionGroup(config, key) && config.regionGroups![key]!.includes(region));
+  const patterns = entries.filter(([key]) => !isRegionGroup(config, key) && isRegionPattern(key) && matchesWildcard(key, region));
+  const exact = entries.filter(([key]) => key === region && !isRegionGroup(config, key));
+  return [...groups, ...patterns, ...exact];
+}
+
+/**
+ * Get the names of the ephemeral template environments of a config: the environments of its `_ephemeral` list, or
+ * else 'ephemeral'. Only template environments reserve the `overrides` key; elsewhere it is an ordinary component.
+ */
+export function getEphemeralTemplateEnvironments(config: DeploymentConfig): string[] {
+  if (!Array.isArray(config._ephemeral)) {
+    return ['ephemeral'];
+  }
+  return config._ephemeral
+    .map(template => template?.environment)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Get the blocks of an environment's `overrides` that apply to an instance of the environment (e.g. the name
+ * derived from an ephemeral branch), in merge order: matching wildcard patterns in the order they are declared,
+ * then the exact name.
+ */
+export function getMatchingOverrides(envConfig: EnvironmentConfig, instanceName: string): [string, EnvironmentConfig][] {
+  const entries = Object.entries(envConfig.overrides ?? {});
+  const patterns = entries.filter(([key]) => key.includes('*') && matchesWildcard(key, instanceName));
+  const exact = entries.filter(([key]) => key === instanceName);
+  return [...patterns, ...exact];
+}
+
+/**
+ * Get the deployable regions of an environment, including regions inherited from its base environments and, for an
+ * ephemeral instance, regions added by its matching overrides.
+ * Exact region keys are deployable, and a region group key makes every region in the group deployable.
+ * Wildcard pattern keys only provide overrides and never add regions on their own.
+ */
+export function getEnvironmentRegions(
+  config: DeploymentConfig,
+  envSource: Record<string, EnvironmentConfig>,
+  envName: string,
+  ephemeral?: EphemeralInstance
+): string[] {
+  const regions = new Set<string>();
+  const blocks = resolveEnvironmentChain(envSource, envName, ephemeral?.baseEnvironment).map(name => envSource[name]!);
+  if (ephemeral) {
+    blocks.push(...getMatchingOverrides(envSource[envName]!, ephemeral.name).map(([, block]) => block));
+  }
+  for (const block of blocks) {
+    for (const key of Object.keys(block.regions ?? {})) {
+      if (isRegionGroup(config, key)) {
+        config.regionGroups![key]!.forEach(region => regions.add(region));
+      } else if (!isRegionPattern(key)) {
+        regions.add(key);
+      }
+    }
+  }
+  return Array.from(regions);
+}
+
+/**
+ * Get the layers that make up a target, in merge order:
+ * defaults -> base environment(s) -> environment -> overrides, where each environment (and override) is directly
+ * followed by its region layers, so a derived environment's own values beat the region blocks of its bases.
+ * For each environment, the region layers are its matching region groups, wildcard patterns and exact region block.
+ * Overrides are the blocks of the environment's `overrides` matching the ephemeral instance name, and are only
+ * included for an ephemeral instance. Environment-level layers never include the `regions` key, nor the `overrides`
+ * key of ephemeral template environments.
+ * Region layers are only included when a region is given.
+ */
+export function getTargetLayers(
+  config: DeploymentConfig,
+  envSource: Record<string, EnvironmentConfig>,
+  envName: string,
+  region?: string | null,
+  ephemeral?: EphemeralInstance
+): ConfigLayer[] {
+  const chain = resolveEnvironmentChain(envSource, envName, ephemeral?.baseEnvironment);
+  const templateEnvs = getEphemeralTemplateEnvironments(config);
+  const blocks: [string, EnvironmentConfig, boolean][] = chain.map(name =>
+    [`environments.${name}`, envSource[name]!, templateEnvs.includes(name)]);
+  if (ephemeral) {
+    for (const [key, block] of getMatchingOverrides(envSource[envName]!, ephemeral.name)) {
+      blocks.push([`environments.${envName}.overrides.${key}`, block, true]);
+    }
+  }
+  const layers: ConfigLayer[] = [];
+
+  if (config.defaults) {
+    layers.push({ source: 'defaults', values: config.defaults as Record<string, ConfigValue> });
+  }
+  for (const [source, block, isTemplate] of blocks) {
+    const { regions: _regions, ...values } = block;
+    if (isTemplate) {
+      delete values.overrides;
+    }
+    layers.push({ source, values: values as Record<string, ConfigValue> });
+    if (region) {
+      for (const [key, regionConfig] of getMatchingRegionBlocks(config, block, region)) {
+        layers.push({ source: `${source}.regions.${key}`, values: regionConfig as Record<string, ConfigValue> });
+      }
+    }
+  }
+  return layers;
+}
+
+/**
+ * Merge a component across the target layers, applying its `_extends` template chain.
+ * The base component is fully resolved for the target first and then acts as the bottom layer of the derived
+ * component. `_abstract` is not inherited. Returns undefined if the component is absent or removed via $unset.
+ */
+export function mergeComponentLayers(
+  layers: ConfigLayer[],
+  componentName: string,
+  stack: string[] = []
+): ComponentConfig | undefined {
+  if (stack.includes(componentName)) {
+    throw new Error(`Component inheritance cycle detected: ${[...stack.slice(stack.indexOf(componentName)), componentName].join(' -> ')}`);
+  }
+
+  const layerValues = layers.map(l => l.values);
+  const own = mergeKeyAcrossLayers<ComponentConfig>(componentName, ...layerValues);
+  if (!own || own._extends === undefined) {
+    return own;
+  }
+  if (typeof own._extends !== 'string' || own._extends === '') {
+    throw new Error(`Component '${componentName}' has an invalid _extends value. Expected a component name`);
+  }
+
+  const base = mergeComponentLayers(layers, own._extends, [...stack, componentName]);
+  if (!base) {
+    throw new Error(`Component '${componentName}' extends unknown component '${own._extends}'`);
+  }
+  const { _abstract, ...inherited } = base;
+  return mergeKeyAcrossLayers<ComponentConfig>(componentName, { [componentName]: inherited }, ...layerValues);
+}
+
+/**
+ * Check whether a component resolves to an abstract template (`_abstract: true`) for the target layers.
+ * Abstract components can be inherited from but are never resolved on their own.
+ */
+export function isComponentAbstract(layers: ConfigLayer[], componentName: string): boolean {
+  return mergeKeyAcrossLayers<ComponentConfig>(componentName, ...layers.map(l => l.values))?._abstract === true;
+}
+
+/**
+ * Merge all layers into the full target configuration, applying component templates.
+ */
+export function mergeTargetLayers(layers: ConfigLayer[]): Record<string, ConfigValue> {
+  const merged = deepMerge<Record<string, ConfigValue>>(...layers.map(l => l.values));
+  for (const [key, value] of Object.entries(merged)) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && value._extends !== undefined) {
+      merged[key] = mergeComponentLayers(layers, key) as Record<string, ConfigValue>;
+    }
+  }
+  return merged;
+}
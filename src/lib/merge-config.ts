@@ -1,22 +1,37 @@
-import fs from 'node:fs';
-import path from 'node:path';
-import JSON5 from 'json5';
-import { deepMerge } from './utils.js';
+import { createHash } from 'node:crypto';
+import { isDeepStrictEqual } from 'node:util';
+import { getConfigBaseDir, loadConfigFile, loadOverlayFile } from './config-loader.js';
+import { createEnvSecretProvider, createFileSecretProvider, findSecretReferences, resolveSecretReference, splitSecretReference } from './secrets.js';
+import { deepMerge, isValueDirective } from './utils.js';
+import { applyLayerConditions, evaluateConditions } from './conditions.js';
+import { builtinFunctions } from './functions.js';
+import { collectProvenance } from './provenance.js';
+import { findOverlayMetadataKeyProblems, reportMetadataProblems, validateMetadataKeys } from './metadata.js';
+import { getEnvironmentRegionCatalog, getRegionFullName, getRegionShortCode, isCatalogRegion, parseTarget } from './regions.js';
+import { findBrokenReference, interpolateConfig } from './interpolation.js';
+import { collectRequiredSpecs, findMissingRequiredValue, findRequiredValueProblem } from './required.js';
+import { getEnvironmentRegions, getEphemeralTemplateEnvironments, getTargetLayers, isComponentAbstract, isRegionGroup, isRegionPattern, mergeComponentLayers } from './layers.js';
+import type { ConfigLayer } from './layers.js';
 import type {
-  RegionShortCode,
-  RegionFullName,
   MergeConfigOptions,
   MergedConfig,
+  MetadataPlacement,
   FlattenedConfig,
-  ParsedTarget,
   DeploymentConfig,
   ComponentConfig,
   ConfigValue,
+  EphemeralTemplate,
+  ExplainResult,
+  ProvenanceEntry,
 } from '../types/index.js';
 
+// Target parsing and region names moved to the region catalogs; re-exported for existing imports
+export { parseTarget, getRegionShortCode, getRegionFullName, AwsRegionMapping, AwsRegionToShortCode } from './regions.js';
+
 /**
  * Strip metadata keys (those starting with underscore) from a config object.
- * These are configuration behavior flags, not actual config values.
+ * These are configuration behavior flags (e.g. _regionAgnostic, _arrayMerge, _replace), not actual config values.
+ * Keys are validated against the METADATA_KEYS registry before merging.
  */
 function stripMetadataKeys(obj: Record<string, ConfigValue>): Record<string, ConfigValue> {
   const result: Record<string, ConfigValue> = {};
@@ -34,80 +49,47 @@ function stripMetadataKeys(obj: Record<string, ConfigValue>): Record<string, Con
   return result;
 }
 
-// Region mapping: short code -> full name
-export const AwsRegionMapping: Record<RegionShortCode, RegionFullName> = {
-  'use1': 'us-east-1',
-  'use2': 'us-east-2',
-  'usw1': 'us-west-1',
-  'usw2': 'us-west-2',
-  'cac1': 'ca-central-1',
-  'euw1': 'eu-west-1',
-  'euw2': 'eu-west-2',
-  'euw3': 'eu-west-3',
-  'euc1': 'eu-central-1',
-  'eun1': 'eu-north-1',
-  'aps1': 'ap-south-1',
-  'apne1': 'ap-northeast-1',
-  'apne2': 'ap-northeast-2',
-  'apne3': 'ap-northeast-3',
-  'apse1': 'ap-southeast-1',
-  'apse2': 'ap-southeast-2',
-  'apse3': 'ap-southeast-3',
-  'ape1': 'ap-east-1',
-  'sae1': 'sa-east-1'
-};
-
-// Reverse mapping: full name -> short code
-export const AwsRegionToShortCode: Record<RegionFullName, RegionShortCode> = Object.fromEntries(
-  Object.entries(AwsRegionMapping).map(([short, full]) => [full, short])
-) as Record<RegionFullName, RegionShortCode>;
-
 /**
- * Get the short region code from a full region name.
+ * Get the ephemeral templates of a config: the branch prefixes that select an ephemeral environment config.
+ * The config's `_ephemeral` list takes precedence; otherwise a non-empty `ephemeralBranchPrefix` maps to the
+ * 'ephemeral' environment. Returns an empty list when ephemeral environments are disabled.
  */
-export function getRegionShortCode(fullRegion: string): string {
-  return AwsRegionToShortCode[fullRegion as RegionFullName] ?? fullRegion;
-}
-
-/**
- * Get the full region name from a short code.
- */
-export function getRegionFullName(shortCode: string): string {
-  return AwsRegionMapping[shortCode as RegionShortCode] ?? shortCode;
+export function getEphemeralTemplates(config: DeploymentConfig, ephemeralBranchPrefix?: string): EphemeralTemplate[] {
+  const templates = config._ephemeral;
+  if (templates === undefined) {
+    return ephemeralBranchPrefix && ephemeralBranchPrefix.trim() !== ''
+      ? [{ prefix: ephemeralBranchPrefix, environment: 'ephemeral' }]
+      : [];
+  }
+  if (!Array.isArray(templates)) {
+    throw new Error('Invalid _ephemeral value. Expected a list of { prefix, environment } entries');
+  }
+  templates.forEach((template, index) => {
+    if (!template || typeof template.prefix !== 'string' || template.prefix === '' || typeof template.environment !== 'string') {
+      throw new Error(`Invalid _ephemeral entry at index ${index}. Expected { prefix, environment } with a non-empty prefix`);
+    }
+    if (!config.environments?.[template.environment]) {
+      throw new Error(`Ephemeral template for prefix '${template.prefix}' refers to unknown environment '${template.environment}'`);
+    }
+  });
+  return templates;
 }
 
 /**
- * Parse a target ID into environment and region components.
- * Target format: environmentname[-region] where region can be either:
- *   - Short code (e.g., 'dev-usw2')
- *   - Full region name (e.g., 'dev-us-west-2')
- * Returns the full region name (e.g., 'us-west-2') in the result.
+ * Normalize an ephemeral environment name: lowercase it, replace characters other than letters, numbers, hyphens and
+ * underscores (e.g. slashes) with hyphens, and collapse and trim hyphens. Names longer than `maxLength` are truncated
+ * and get a hyphen and a 6 character hash of the original name, so distinct long names stay distinct.
  */
-export function parseTarget(target: string): ParsedTarget {
-  // Try to find a full region name at the end of the target first (longer match takes priority)
-  for (const fullRegion of Object.values(AwsRegionMapping) as RegionFullName[]) {
-    const suffix = `-${fullRegion}`;
-    if (target.endsWith(suffix)) {
-      return {
-        env: target.slice(0, -suffix.length),
-        region: fullRegion
-      };
-    }
+export function normalizeEnvironmentName(name: string, maxLength?: number): string {
+  if (maxLength !== undefined && (!Number.isInteger(maxLength) || maxLength < 8)) {
+    throw new Error(`Invalid ephemeral name maximum length '${maxLength}'. Expected an integer of at least 8`);
   }
-
-  // Try to find a region short code at the end of the target
-  for (const regionCode of Object.keys(AwsRegionMapping) as RegionShortCode[]) {
-    const suffix = `-${regionCode}`;
-    if (target.endsWith(suffix)) {
-      return {
-        env: target.slice(0, -suffix.length),
-        region: AwsRegionMapping[regionCode]
-      };
-    }
+  const normalized = name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/-{2,}/g, '-').replace(/^-+|-+$/g, '');
+  if (maxLength === undefined || normalized.length <= maxLength) {
+    return normalized;
   }
-
-  // No region found, entire target is the environment name
-  return { env: target, region: undefined };
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 6);
+  return `${normalized.slice(0, maxLength - hash.length - 1).replace(/[-_]+$/, '')}-${hash}`;
 }
 
 interface DetermineEnvironmentResult {
@@ -119,131 +101,214 @@ interface DetermineEnvironmentResult {
 export function mergeConfig(options: MergeConfigOptions): MergedConfig | FlattenedConfig {
   const {
     configFile,
-    env,
-    region,
+    target,
     output,
     delimiter,
     ephemeralBranchPrefix,
     disableEphemeralBranchCheck,
     branchName,
+    normalizeEphemeralName,
+    ephemeralNameMaxLength,
+    ephemeralBase,
     component,
-    hoist
+    hoist,
+    overlays,
+    allowedEnvVars,
+    secretProviders,
+    onSecret,
+    functions,
+    onProvenance,
+    metadataValidation,
+    onWarning,
+    metadataPlacement,
+    metadataPrefix
   } = options;
 
+  // Only normalized names are shortened, so a maximum length without normalization would be silently ignored
+  if (ephemeralNameMaxLength !== undefined && !normalizeEphemeralName) {
+    throw new Error('An ephemeral name maximum length requires ephemeral name normalization to be enabled');
+  }
+
   // Determine if hoisting should occur: only when component is specified and hoist is not explicitly false
   const shouldHoist = component ? (hoist !== false) : false;
 
+  // Files that define each value are only tracked when provenance is requested
+  const origins = onProvenance ? new Map<string, string>() : undefined;
   const config: DeploymentConfig = typeof configFile === 'string'
-    ? JSON5.parse(fs.readFileSync(path.resolve(configFile), 'utf8')) as DeploymentConfig
+    ? loadConfigFile(configFile, origins)
     : configFile;
 
+  // Metadata keys must be registered, so typos (e.g. _regionAgnostc) are not silently stripped from the output
+  validateMetadataKeys(config, metadataValidation, onWarning);
+
+  // Parse target (if given) against the config, otherwise use env/region directly
+  if (target && (options.env || options.region)) {
+    throw new Error('target cannot be used with env or region');
+  }
+  const { env, region } = target
+    ? parseTarget(target, config)
+    : { env: options.env ?? '', region: options.region };
+  // Without an env, the environment is derived from the branch name through the ephemeral templates
+  if (!env && !branchName) {
+    throw new Error('Either target or env must be specified');
+  }
+
   const envSource = config.environments;
 
   // Handle ephemeral environments
   const { envName, envConfigName, isEphemeral } = determineEnvironment();
 
-  // Convert region to full name if it's a short code
-  const fullRegion = region ? (AwsRegionMapping[region as RegionShortCode] ?? region) : region;
-  const shortRegion = region
-    ? (Object.keys(AwsRegionMapping).find(key => AwsRegionMapping[key as RegionShortCode] === fullRegion) ?? region)
-    : region;
-
   // Validate environment exists (using envConfigName to support ephemeral cases)
   if (!envSource || !envSource[envConfigName]) {
     throw new Error(`Environment '${envConfigName}' not found in config file`);
   }
 
-  // Validate region exists in mapping if provided (can use either full region name or short code)
-  if (region && !AwsRegionMapping[region as RegionShortCode] && !Object.values(AwsRegionMapping).includes(region as RegionFullName)) {
-    throw new Error(`Region '${region}' is not a valid region code or name`);
+  // Regions are read with the region catalog of the environment's provider (_provider, AWS by default), including
+  // the config's _regions aliases.
+  // Convert region to full name if it's a short code
+  const ephemeralBaseEnvironment = isEphemeral ? ephemeralBase || undefined : undefined;
+  const regionCatalog = getEnvironmentRegionCatalog(config, envConfigName, ephemeralBaseEnvironment);
+  const fullRegion = region ? getRegionFullName(region, regionCatalog) : region;
+  const shortRegion = fullRegion ? getRegionShortCode(fullRegion, regionCatalog) : fullRegion;
+
+  // Region groups and wildcard patterns only provide overrides; they are not deployable regions
+  if (region && (isRegionGroup(config, region) || isRegionPattern(region))) {
+    throw new Error(`Region '${region}' is a region group or pattern, not a deployable region`);
   }
 
+  // Validate region exists in the catalog if provided (can use either full region name or short code)
+  if (region && !isCatalogRegion(regionCatalog, region)) {
+    throw new Error(`Region '${region}' is not a valid region code or name for provider '${regionCatalog.provider}'`);
+  }
+
+  // Common dynamic metadata (environment, region, etc)
+  const metadata: Record<string, ConfigValue> = {
+    env_name: envName,
+    env_config_name: envConfigName,
+    region: fullRegion ?? '',
+    region_short: shortRegion ?? '',
+    is_ephemeral: isEphemeral,
+    // The original branch, since env_name may be normalized
+    ...(isEphemeral ? { branch_name: branchName ?? '' } : {}),
+  };
+
+  // Layers for this target: defaults -> base env(s) -> env -> ephemeral overrides -> overlays, each environment and
+  // override followed by its region blocks, following _baseEnvironment and _extends. Overrides of the ephemeral
+  // environment are matched against the name derived from the branch, and its base environment can be replaced
+  // per target
+  const ephemeral = isEphemeral ? { name: envName, baseEnvironment: ephemeralBaseEnvironment } : undefined;
+  const overlayLayers: ConfigLayer[] = (overlays ?? []).map((overlay, index) => typeof overlay === 'string'
+    ? { source: `overlay:${overlay}`, values: loadOverlayFile(overlay) }
+    : { source: `overlays.${index}`, values: overlay });
+  // Overlay metadata keys are checked like those of the config, so typos are not silently stripped either
+  reportMetadataProblems(
+    overlayLayers.flatMap(layer => findOverlayMetadataKeyProblems(layer.values, layer.source)),
+    metadataValidation,
+    onWarning
+  );
+  // The _when blocks of each layer are applied for the target, so they only merge into earlier layers when they match
+  const targetLayers = [...getTargetLayers(config, envSource, envConfigName, fullRegion, ephemeral), ...overlayLayers];
+  const layers = applyLayerConditions(targetLayers, metadata);
+  const envLevelLayers = applyLayerConditions(getTargetLayers(config, envSource, envConfigName, null, ephemeral), metadata);
+
   // Helper to check if a component is region-agnostic (merges defaults + env level)
   function isComponentRegionAgnostic(componentName: string): boolean {
-    const defaultComp = config.defaults?.[componentName] as ComponentConfig | undefined;
-    const envComp = envSource?.[envConfigName]?.[componentName] as ComponentConfig | undefined;
-    const merged = deepMerge(defaultComp ?? {}, envComp ?? {});
-    return merged._regionAgnostic === true;
+    const merged = mergeComponentLayers(envLevelLayers, componentName);
+    return merged?._regionAgnostic === true;
   }
 
   // Validate that region is provided if a specific component is requested that requires a region
   // If no specific component is requested, we'll filter out non-region-agnostic components later
-  const envRegions = envSource[envConfigName]?.regions;
-  const envHasRegions = envRegions && Object.keys(envRegions).length > 0;
+  const envRegions = getEnvironmentRegions(config, envSource, envConfigName, ephemeral);
+  const envHasRegions = envRegions.length > 0;
   if (component && envHasRegions && !region && !isComponentRegionAgnostic(component)) {
-    const availableRegions = Object.keys(envRegions).join(', ');
+    const availableRegions = envRegions.join(', ');
     throw new Error(`Environment '${envConfigName}' has regions defined. You must specify a region. Available regions: ${availableRegions}`);
   }
 
-  function determineEnvironment(): DetermineEnvironmentResult {
-    let resultEnvName = env;
-    let resultEnvConfigName = env;
-    let resultIsEphemeral = false;
+  // Normalize an ephemeral name when enabled, so branches with other characters or long names are usable
+  function normalizeName(name: string): string {
+    return normalizeEphemeralName ? normalizeEnvironmentName(name, ephemeralNameMaxLength) : name;
+  }
 
-    // If a direct match for the env is found in the config, we can return early, unless it's 'ephemeral'.
-    if (env !== 'ephemeral' && envSource && envSource[env]) {
-      return { envName: resultEnvName, envConfigName: resultEnvConfigName, isEphemeral: false };
+  function determineEnvironment(): DetermineEnvironmentResult {
+    // Ephemeral templates: the `_ephemeral` branch prefix mapping of the config, or else the ephemeral branch prefix
+    // option mapped to the 'ephemeral' environment
+    const templates = getEphemeralTemplates(config, ephemeralBranchPrefix);
+    const isTemplate = getEphemeralTemplateEnvironments(config).includes(env);
+
+    // If a direct match for the env is found in the config, we can return early, unless it's an ephemeral template.
+    if (env && !isTemplate && envSource && envSource[env]) {
+      return { envName: env, envConfigName: env, isEphemeral: false };
     }
 
-    // From here, we are either dealing with an explicit 'ephemeral' env or an env not found in the config.
-    // Both cases might be ephemeral environments.
+    // From here, we are either dealing with an explicit ephemeral template env, an env not found in the config
+    // or no env at all (derived from the branch name). All cases might be ephemeral environments.
 
-    if (env === 'ephemeral' && envSource && envSource[env]) {
-      resultEnvConfigName = 'ephemeral';
-      resultIsEphemeral = true;
-    }
-
-    if (!ephemeralBranchPrefix || ephemeralBranchPrefix.trim() === '') {
+    if (templates.length === 0) {
       // Ephemeral logic is disabled, and we already checked for direct matches.
-      if (!resultIsEphemeral) {
+      if (!env) {
+        throw new Error('Either target or env must be specified');
+      }
+      if (!isTemplate) {
         throw new Error(`Environment '${env}' not found in config file`);
       }
-    } else if (disableEphemeralBranchCheck) {
+      return { envName: env, envConfigName: env, isEphemeral: true };
+    }
+
+    if (disableEphemeralBranchCheck && env) {
       // Trust that this is an ephemeral environment without checking the branch name.
-      resultIsEphemeral = true;
-      resultEnvConfigName = 'ephemeral';
-      // Note: envName remains as the input 'env' since we can't derive it from a branch.
-    } else if (branchName) {
-      const ephemeralPattern = new RegExp(`^${ephemeralBranchPrefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[a-z0-9_-]+$`);
-
-      if (ephemeralPattern.test(branchName)) {
-        const branchEnvName = branchName.substring(ephemeralBranchPrefix.length);
-
-        // If env was specified (and not 'ephemeral'), it must match the branch-derived name.
-        if (env !== 'ephemeral' && env !== branchEnvName && env !== branchName) {
-          throw new Error(`Ephemeral environment name '${env}' does not match the branch name '${branchName}'`);
-        }
+      // Note: envName remains as the input 'env' (normalized if enabled) since we can't derive it from a branch.
+      const envConfigName = isTemplate ? env : templates[0]!.environment;
+      return { envName: isTemplate ? env : normalizeName(env), envConfigName, isEphemeral: true };
+    }
 
-        resultIsEphemeral = true;
-        resultEnvName = branchEnvName;
-        resultEnvConfigName = 'ephemeral';
-      } else {
+    if (branchName) {
+      // The first template whose prefix the branch starts with selects the environment config
+      const template = templates.find(t => branchName.startsWith(t.prefix));
+      const rawEnvName = template ? branchName.substring(template.prefix.length) : '';
+      const branchEnvName = normalizeName(rawEnvName);
+
+      if (!template || !/^[a-z0-9_-]+$/.test(branchEnvName)) {
         // Branch name is present but does not match the ephemeral pattern.
-        throw new Error(`Ephemeral environment branches must follow the format '${ephemeralBranchPrefix}<name>' where <name> contains only lowercase letters, numbers, hyphens, and underscores. Current branch: ${branchName}`);
+        const formats = templates.map(t => `'${t.prefix}<name>'`).join(' or ');
+        const requirement = normalizeEphemeralName
+          ? 'contains at least one letter or number'
+          : 'contains only lowercase letters, numbers, hyphens, and underscores';
+        throw new Error(`Ephemeral environment branches must follow the format ${formats} where <name> ${requirement}. Current branch: ${branchName}`);
+      }
+
+      // If an ephemeral template env was specified, the branch must map to it
+      if (isTemplate && env !== template.environment) {
+        throw new Error(`Branch '${branchName}' maps to ephemeral environment '${template.environment}', not '${env}'`);
+      }
+      // If another env was specified, it must match the branch-derived name.
+      if (env && !isTemplate && env !== branchEnvName && env !== rawEnvName && env !== branchName) {
+        throw new Error(`Ephemeral environment name '${env}' does not match the branch name '${branchName}'`);
       }
-    } else if (env === 'ephemeral') {
-      // If env is 'ephemeral' but we have no branch name to derive the real name from,
-      // we'll proceed with 'ephemeral' as the envName.
-      resultIsEphemeral = true;
-      resultEnvName = 'ephemeral';
-      resultEnvConfigName = 'ephemeral';
+
+      return { envName: branchEnvName, envConfigName: template.environment, isEphemeral: true };
     }
 
-    if (resultIsEphemeral) {
-      return { envName: resultEnvName, envConfigName: resultEnvConfigName, isEphemeral: resultIsEphemeral };
+    if (isTemplate) {
+      // If env is an ephemeral template but we have no branch name to derive the real name from,
+      // we'll proceed with the template name as the envName.
+      return { envName: env, envConfigName: env, isEphemeral: true };
     }
 
     // If we've reached here, it means it wasn't a direct match and didn't qualify as an ephemeral environment.
-    throw new Error(`Environment '${env}' not found in config file`);
+    throw new Error(env ? `Environment '${env}' not found in config file` : 'Either target or env must be specified');
+  }
+
+  // Merge a component across all target layers, applying component templates (_extends), then evaluate its
+  // $if conditions against the metadata. Undefined if the component is absent or removed
+  function mergeComponent(componentName: string): ComponentConfig | undefined {
+    const merged = mergeComponentLayers(layers, componentName);
+    return merged && evaluateConditions({ [componentName]: merged }, metadata)[componentName] as ComponentConfig | undefined;
   }
 
   function getMergedComponentConfig(componentName: string): ComponentConfig {
-    const defaultComp = config.defaults?.[componentName] ?? {};
-    const envComp = (envSource?.[envConfigName]?.[componentName] as ComponentConfig | undefined) ?? {};
-    const regionComp = fullRegion
-      ? ((envSource?.[envConfigName]?.regions?.[fullRegion]?.[componentName] as ComponentConfig | undefined) ?? {})
-      : {};
-    const merged = deepMerge(defaultComp, envComp, regionComp);
+    const merged = mergeComponent(componentName) ?? {};
     // Strip metadata keys (like _regionAgnostic) from the output
     return stripMetadataKeys(merged) as ComponentConfig;
   }
@@ -252,33 +317,23 @@ export function mergeConfig(options: MergeConfigOptions): MergedConfig | Flatten
     const keys = new Set<string>();
     function isComponent(configObj: Record<string, unknown>, key: string): boolean {
       const value = configObj[key];
-      return value !== null && typeof value === 'object' && !Array.isArray(value);
+      return value !== null && typeof value === 'object' && !Array.isArray(value) && !isValueDirective(value);
     }
 
-    if (config.defaults) {
-      Object.keys(config.defaults).filter(k => isComponent(config.defaults!, k)).forEach(k => keys.add(k));
-    }
-    if (envSource?.[envConfigName]) {
-      const envConfig = envSource[envConfigName];
-      Object.keys(envConfig).filter(k => isComponent(envConfig as Record<string, unknown>, k) && k !== 'regions').forEach(k => keys.add(k));
-      if (fullRegion && envConfig.regions?.[fullRegion]) {
-        const regionConfig = envConfig.regions[fullRegion];
-        Object.keys(regionConfig).filter(k => isComponent(regionConfig as Record<string, unknown>, k)).forEach(k => keys.add(k));
-      }
+    for (const layer of layers) {
+      Object.keys(layer.values).filter(k => isComponent(layer.values, k)).forEach(k => keys.add(k));
     }
-    return Array.from(keys);
+    // Drop components removed by a $unset marker at a later layer, and abstract component templates
+    return Array.from(keys).filter(k => mergeComponent(k) !== undefined && !isComponentAbstract(layers, k));
   }
 
   function getGlobalMerged(): Record<string, ConfigValue> {
     function isNonComponent([, v]: [string, unknown]): boolean {
-      return typeof v !== 'object' || v === null || Array.isArray(v);
+      return typeof v !== 'object' || v === null || Array.isArray(v) || isValueDirective(v);
     }
-    const d = Object.fromEntries(Object.entries(config.defaults ?? {}).filter(isNonComponent));
-    const e = Object.fromEntries(Object.entries(envSource?.[envConfigName] ?? {}).filter(isNonComponent));
-    const r = fullRegion
-      ? Object.fromEntries(Object.entries(envSource?.[envConfigName]?.regions?.[fullRegion] ?? {}).filter(isNonComponent))
-      : {};
-    return deepMerge(d, e, r) as Record<string, ConfigValue>;
+    const globals = layers.map(l => Object.fromEntries(Object.entries(l.values).filter(isNonComponent)));
+    // Evaluate $if values, and strip metadata keys (like _extends) from the output
+    return stripMetadataKeys(evaluateConditions(deepMerge(...globals), metadata));
   }
 
   const allComponentKeys = getAllComponentKeys();
@@ -290,6 +345,14 @@ export function mergeConfig(options: MergeConfigOptions): MergedConfig | Flatten
     throw new Error(`Component '${component}' not found or is not a valid component in the merged configuration`);
   }
 
+  // Full target configuration (every component, even those filtered from the output or not hoisted) plus metadata,
+  // used to resolve placeholders and references
+  const resolutionContext: Record<string, ConfigValue> = {
+    ...getGlobalMerged(),
+    ...Object.fromEntries(allComponentKeys.map(key => [key, getMergedComponentConfig(key)])),
+    ...metadata,
+  };
+
   if (component && shouldHoist) {
     // Hoist mode: only include the specified component and hoist its properties to root
     const componentConfig = getMergedComponentConfig(component);
@@ -305,16 +368,24 @@ export function mergeConfig(options: MergeConfigOptions): MergedConfig | Flatten
     };
   } else {
     // No component specified, or component specified with hoist=false
-    // Filter out invalid components (null values, non-region-agnostic without region)
+    // Filter out invalid components (null values, broken references, non-region-agnostic without region)
     const validComponents: [string, ComponentConfig][] = [];
     const componentsWithNulls = new Set<string>();
+    const missingRequiredValues = new Map<string, { path: string; description?: string }>();
+    const brokenReferences = new Map<string, string>();
     for (const key of allComponentKeys) {
       if (envHasRegions && !region && !isComponentRegionAgnostic(key)) {
         continue;
       }
       const compConfig = getMergedComponentConfig(key);
+      const missingRequired = findMissingRequiredValue(compConfig, key);
+      const brokenReference = findBrokenReference(compConfig, resolutionContext, key);
       if (hasNullValues(compConfig)) {
         componentsWithNulls.add(key);
+      } else if (missingRequired) {
+        missingRequiredValues.set(key, missingRequired);
+      } else if (brokenReference) {
+        brokenReferences.set(key, brokenReference.path);
       } else {
         validComponents.push([key, compConfig]);
       }
@@ -327,6 +398,14 @@ export function mergeConfig(options: MergeConfigOptions): MergedConfig | Flatten
         if (componentsWithNulls.has(component)) {
           throw new Error(`Component '${component}' has incomplete configuration (contains null values) for target '${envConfigName}${fullRegion ? `-${fullRegion}` : ''}'`);
         }
+        const missingRequired = missingRequiredValues.get(component);
+        if (missingRequired) {
+          const description = missingRequired.description ? ` (${missingRequired.description})` : '';
+          throw new Error(`Component '${component}' is missing a required value at path: ${missingRequired.path}${description} for target '${envConfigName}${fullRegion ? `-${fullRegion}` : ''}'`);
+        }
+        if (brokenReferences.has(component)) {
+          throw new Error(`Component '${component}' has a $ref at path: ${brokenReferences.get(component)} that points at a missing or null value for target '${envConfigName}${fullRegion ? `-${fullRegion}` : ''}'`);
+        }
         // Otherwise it was excluded due to region requirements (shouldn't happen since we check earlier, but just in case)
         throw new Error(`Component '${component}' is not valid for the specified target`);
       }
@@ -343,22 +422,124 @@ export function mergeConfig(options: MergeConfigOptions): MergedConfig | Flatten
     finalResult = merged;
   }
 
-  // Add common dynamic metadata to the merged result (environment, region, etc)
-  finalResult.env_name = envName;
-  finalResult.env_config_name = envConfigName;
-  finalResult.region = fullRegion ?? '';
-  finalResult.region_short = shortRegion ?? '';
-  finalResult.is_ephemeral = isEphemeral;
+  // Check $required placeholders: unset placeholders and concrete overrides now, resolved values after interpolation
+  const allRequiredSpecs = collectRequiredSpecs(layers);
+  const requiredSpecs = component && shouldHoist
+    ? (allRequiredSpecs[component] ?? {}) as Record<string, ConfigValue>
+    : allRequiredSpecs;
+  validateRequiredValues(finalResult, requiredSpecs, true);
+
+  // Resolve $secret values with the built-in providers plus any registered ones, reporting each resolved secret
+  const providers = { file: createFileSecretProvider(), env: createEnvSecretProvider(allowedEnvVars), ...secretProviders };
+  const baseDir = typeof configFile === 'string' ? getConfigBaseDir(configFile) : process.cwd();
+  const resolvedSecrets = new Map<string, string>();
+  function resolveSecret(reference: string, secretPath: string): string {
+    if (!resolvedSecrets.has(reference)) {
+      const value = resolveSecretReference(reference, providers, { baseDir, path: secretPath });
+      resolvedSecrets.set(reference, value);
+      onSecret?.(value);
+    }
+    return resolvedSecrets.get(reference)!;
+  }
+
+  // Resolve ${...} placeholders, $ref references and $fn calls against the full target configuration
+  finalResult = interpolateConfig(finalResult, resolutionContext, {
+    allowedEnvVars,
+    resolveSecret,
+    functions: { ...builtinFunctions, ...functions },
+    provider: regionCatalog.provider,
+  });
+
+  // Add common dynamic metadata to the resolved result (environment, region, etc). Config values it would overwrite
+  // with a different value (e.g. the region of a hoisted component) are warnings, or errors when strict validation is
+  // chosen explicitly, since the metadata has always replaced them
+  const placedMetadata = placeMetadata(metadata, metadataPlacement, metadataPrefix);
+  const collisions = Object.keys(placedMetadata)
+    .filter(key => Object.hasOwn(finalResult, key) && !isDeepStrictEqual(finalResult[key], placedMetadata[key]))
+    .map(key => `Metadata field '${key}' overwrites the '${key}' value of the resolved config for target '${envConfigName}${fullRegion ? `-${fullRegion}` : ''}'. Place the metadata under _meta or with a prefix to keep both`);
+  reportMetadataProblems(collisions, metadataValidation ?? 'lenient', onWarning);
+  Object.assign(finalResult, placedMetadata);
 
   // Validate that no null values exist in the final configuration
+  validateRequiredValues(finalResult, requiredSpecs, false);
   validateNoNullValues(finalResult);
 
+  if (onProvenance) {
+    const hoistedComponent = component && shouldHoist ? component : undefined;
+    onProvenance(collectProvenance(layers, finalResult, { hoistedComponent, metadata: placedMetadata, origins }));
+  }
+
   if (output === 'flatten') {
     return flatten(finalResult, '', delimiter ?? '.');
   }
   return finalResult as MergedConfig;
 }
 
+/**
+ * Arrange the dynamic metadata fields for the result: at the root, under a `_meta` object or with a key prefix
+ */
+function placeMetadata(
+  metadata: Record<string, ConfigValue>,
+  placement: MetadataPlacement = 'root',
+  prefix?: string
+): Record<string, ConfigValue> {
+  switch (placement) {
+    case 'root':
+      return metadata;
+    case 'meta':
+      return { _meta: metadata };
+    case 'prefix':
+      if (!prefix) {
+        throw new Error("Metadata placement 'prefix' requires a metadata prefix (e.g. 'udc_')");
+      }
+      return Object.fromEntries(Object.entries(metadata).map(([key, value]) => [`${prefix}${key}`, value]));
+    default:
+      throw new Error(`Invalid metadata placement '${String(placement)}'. Expected 'root', 'meta' or 'prefix'`);
+  }
+}
+
+/**
+ * Merge configuration as JSON and report where each value comes from
+ */
+export function explainConfig(options: MergeConfigOptions): ExplainResult {
+  let provenance: ProvenanceEntry[] = [];
+  const config = mergeConfig({
+    ...options,
+    output: 'json',
+    onProvenance: entries => {
+      provenance = entries;
+      options.onProvenance?.(entries);
+    },
+  }) as MergedConfig;
+  return { config, provenance };
+}
+
+/**
+ * List the `$secret` references a target uses (e.g. 'ssm:/dev/db/password') without resolving them. Secret providers
+ * are synchronous, so secrets of remote stores (SSM, Vault, ...) are fetched for these references first and then
+ * returned by a provider passed to mergeConfig.
+ */
+export function listSecretReferences(options: MergeConfigOptions): string[] {
+  const { configFile, overlays } = options;
+  const config = typeof configFile === 'string' ? loadConfigFile(configFile) : configFile;
+  const overlayValues = (overlays ?? []).map(overlay => typeof overlay === 'string' ? loadOverlayFile(overlay) : overlay);
+  const schemes = new Set([config, ...overlayValues]
+    .flatMap(value => findSecretReferences(value as Record<string, ConfigValue>))
+    .map(reference => splitSecretReference(reference)[0]));
+
+  // Resolve the target with providers that record each reference instead of reading the secret
+  const references = new Set<string>();
+  const secretProviders = Object.fromEntries(Array.from(schemes, scheme => [scheme, {
+    resolve: (reference: string) => {
+      const fullReference = scheme ? `${scheme}:${reference}` : reference;
+      references.add(fullReference);
+      return fullReference;
+    }
+  }]));
+  mergeConfig({ ...options, configFile: config, secretProviders, onSecret: undefined, onProvenance: undefined, onWarning: () => {} });
+  return Array.from(references);
+}
+
 function validateNoNullValues(obj: Record<string, ConfigValue>, path: string = ''): void {
   for (const [key, value] of Object.entries(obj)) {
     const currentPath = path ? `${path}.${key}` : key;
@@ -373,6 +554,13 @@ function validateNoNullValues(obj: Record<string, ConfigValue>, path: string = '
   }
 }
 
+function validateRequiredValues(obj: Record<string, ConfigValue>, specs: Record<string, ConfigValue>, allowUnresolved: boolean): void {
+  const problem = findRequiredValueProblem(obj, specs, '', { allowUnresolved });
+  if (problem) {
+    throw new Error(problem.message);
+  }
+}
+
 function hasNullValues(obj: Record<string, ConfigValue>): boolean {
   for (const value of Object.values(obj)) {
     if (value === null) return true;
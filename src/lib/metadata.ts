@@ -0,0 +1,200 @@
+import { isPlainObject, isValueDirective } from './utils.js';
+import { getEphemeralTemplateEnvironments } from './layers.js';
+import { METADATA_KEYS } from '../types/index.js';
+import type {
+  ConfigValue,
+  DeploymentConfig,
+  EnvironmentConfig,
+  MetadataKey,
+  MetadataKeyLocation,
+  MetadataValidationMode,
+  MetadataValueType,
+} from '../types/index.js';
+
+const LOCATION_NAMES: Record<MetadataKeyLocation, string> = {
+  config: 'the config root',
+  defaults: 'defaults',
+  environment: 'an environment',
+  region: 'a region',
+  overlay: 'an overlay',
+  component: 'a component',
+  value: 'a nested value',
+};
+
+function isRegisteredKey(key: string): key is MetadataKey {
+  return Object.hasOwn(METADATA_KEYS, key);
+}
+
+function matchesType(value: ConfigValue, type: MetadataValueType): boolean {
+  switch (type) {
+    case 'boolean':
+    case 'string':
+      return typeof value === type;
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+  }
+}
+
+// Edit distance between two keys, used to suggest the registered key a typo was meant to be
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function checkMetadataKey(key: string, value: ConfigValue, location: MetadataKeyLocation, path: string): string | undefined {
+  const keyPath = path ? `${path}.${key}` : key;
+  if (!isRegisteredKey(key)) {
+    const suggestion = Object.keys(METADATA_KEYS).find(known => editDistance(key.toLowerCase(), known.toLowerCase()) <= 2);
+    return `Unknown metadata key '${key}' at path: ${keyPath}.${suggestion ? ` Did you mean '${suggestion}'?` : ''} Known keys: ${Object.keys(METADATA_KEYS).join(', ')}`;
+  }
+  const spec = METADATA_KEYS[key];
+  const locations: readonly MetadataKeyLocation[] = spec.locations;
+  if (!locations.includes(location)) {
+    return `Metadata key '${key}' is not allowed in ${LOCATION_NAMES[location]} at path: ${keyPath}. It can be used in: ${locations.join(', ')}`;
+  }
+  const types: readonly MetadataValueType[] = spec.types;
+  if (!types.some(type => matchesType(value, type))) {
+    return `Metadata key '${key}' at path: ${keyPath} must be of type ${types.map(type => `'${type}'`).join(' or ')}`;
+  }
+  return undefined;
+}
+
+// Visitors of config blocks that collect the metadata key problems of the blocks into `problems`
+function createMetadataKeyVisitor(problems: string[]) {
+  function check(key: string, value: ConfigValue, location: MetadataKeyLocation, path: string): void {
+    const problem = checkMetadataKey(key, value, location, path);
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  // Values nested in components: metadata keys of plain objects, and the content of lists and value directives
+  function visitValue(value: ConfigValue, path: string): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visitValue(item, `${path}.${index}`));
+    } else if (isPlainObject(value)) {
+      const directive = isValueDirective(value);
+      for (const [key, child] of Object.entries(value)) {
+        if (key.startsWith('_') && !directive) {
+          check(key, child, 'value', path);
+        } else {
+          visitValue(child, `${path}.${key}`);
+        }
+      }
+    }
+  }
+
+  function visitComponent(component: Record<string, ConfigValue>, path: string): void {
+    for (const [key, value] of Object.entries(component)) {
+      if (key.startsWith('_')) {
+        check(key, value, 'component', path);
+      } else {
+        visitValue(value, `${path}.${key}`);
+      }
+    }
+  }
+
+  // A layer block (defaults, environment, override, region or overlay): its own metadata keys, components and
+  // global values
+  function visitLayer(block: Record<string, unknown>, location: MetadataKeyLocation, path: string, reservedKeys: string[] = []): void {
+    for (const [key, value] of Object.entries(block)) {
+      if (reservedKeys.includes(key)) continue;
+      const valuePath = `${path}.${key}`;
+      if (key.startsWith('_')) {
+        check(key, value as ConfigValue, location, path);
+      } else if (isPlainObject(value) && !isValueDirective(value)) {
+        visitComponent(value, valuePath);
+      } else {
+        visitValue(value as ConfigValue, valuePath);
+      }
+    }
+  }
+
+  return { check, visitLayer };
+}
+
+/**
+ * Find the problems with the metadata keys (keys starting with underscore) of a configuration: keys that are not
+ * in the METADATA_KEYS registry, keys used where the registry doesn't allow them and values of the wrong type.
+ * Returns one message per problem, in document order.
+ */
+export function findMetadataKeyProblems(config: DeploymentConfig): string[] {
+  const problems: string[] = [];
+  const { check, visitLayer } = createMetadataKeyVisitor(problems);
+
+  // Only ephemeral template environments (and their overrides) reserve the `overrides` key
+  function visitEnvironment(envConfig: EnvironmentConfig, path: string, isTemplate: boolean): void {
+    visitLayer(envConfig, 'environment', path, isTemplate ? ['regions', 'overrides'] : ['regions']);
+    for (const [region, regionConfig] of Object.entries(envConfig.regions ?? {})) {
+      visitLayer(regionConfig, 'region', `${path}.regions.${region}`);
+    }
+    if (isTemplate) {
+      for (const [name, override] of Object.entries(envConfig.overrides ?? {})) {
+        visitEnvironment(override, `${path}.overrides.${name}`, true);
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    if (key.startsWith('_')) {
+      check(key, value as ConfigValue, 'config', '');
+    }
+  }
+  if (config.defaults) {
+    visitLayer(config.defaults, 'defaults', 'defaults');
+  }
+  const templateEnvs = getEphemeralTemplateEnvironments(config);
+  for (const [envName, envConfig] of Object.entries(config.environments ?? {})) {
+    visitEnvironment(envConfig, `environments.${envName}`, templateEnvs.includes(envName));
+  }
+
+  return problems;
+}
+
+/**
+ * Find the problems with the metadata keys of an overlay (component and global values), like
+ * findMetadataKeyProblems. Paths start with the overlay's source, e.g. 'overlays.0.app._regionAgnostc'.
+ */
+export function findOverlayMetadataKeyProblems(values: Record<string, ConfigValue>, source: string): string[] {
+  const problems: string[] = [];
+  createMetadataKeyVisitor(problems).visitLayer(values, 'overlay', source);
+  return problems;
+}
+
+/**
+ * Report metadata problems: in strict mode the first problem is thrown as an error, in lenient mode every problem
+ * is passed to `onWarning`.
+ */
+export function reportMetadataProblems(
+  problems: string[],
+  mode: MetadataValidationMode = 'strict',
+  onWarning: (message: string) => void = message => console.warn(`Warning: ${message}`)
+): void {
+  if (mode === 'strict' && problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+  problems.forEach(problem => onWarning(problem));
+}
+
+/**
+ * Validate the metadata keys of a configuration against the METADATA_KEYS registry, reporting the problems
+ * according to the mode.
+ */
+export function validateMetadataKeys(
+  config: DeploymentConfig,
+  mode: MetadataValidationMode = 'strict',
+  onWarning?: (message: string) => void
+): void {
+  reportMetadataProblems(findMetadataKeyProblems(config), mode, onWarning);
+}
@@ -0,0 +1,157 @@
+import { isPlainObject, isUnsetMarker, isValueDirective } from './utils.js';
+import { mergeComponentLayers } from './layers.js';
+import type { ConfigLayer } from './layers.js';
+import type { ConfigValue, ProvenanceEntry, ProvenanceSource } from '../types/index.js';
+
+// Layer values recorded per path (relative to a component, or to the root for global values), in merge order
+type History = Map<string, ProvenanceSource[]>;
+
+function isComponentValue(value: unknown): value is Record<string, ConfigValue> {
+  return isPlainObject(value) && !isValueDirective(value);
+}
+
+function clearPath(history: History, path: string): void {
+  for (const key of Array.from(history.keys())) {
+    if (path === '' || key === path || key.startsWith(`${path}.`)) {
+      history.delete(key);
+    }
+  }
+}
+
+/**
+ * Record the leaf values an object of one layer defines. Value directives and arrays are leaves.
+ * `$unset` markers and `_replace` objects discard what was recorded for their path by earlier layers.
+ */
+function recordLeaves(
+  history: History,
+  obj: Record<string, ConfigValue>,
+  path: string,
+  layer: ConfigLayer,
+  layerPath: string,
+  origins?: Map<string, string>
+): void {
+  if (obj._replace === true) {
+    clearPath(history, path);
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.startsWith('_')) continue;
+    const currentPath = path ? `${path}.${key}` : key;
+    const currentLayerPath = `${layerPath}.${key}`;
+    if (isUnsetMarker(value)) {
+      clearPath(history, currentPath);
+    } else if (isComponentValue(value)) {
+      recordLeaves(history, value, currentPath, layer, currentLayerPath, origins);
+    } else {
+      const file = origins?.get(`${layer.source}.${currentLayerPath}`);
+      const source: ProvenanceSource = { layer: layer.source, layerPath: currentLayerPath, value, ...(file ? { file } : {}) };
+      history.set(currentPath, [...(history.get(currentPath) ?? []), source]);
+    }
+  }
+}
+
+/**
+ * Record the history of a component across the layers, starting with its base component (`_extends`).
+ */
+function getComponentHistory(layers: ConfigLayer[], componentName: string, origins?: Map<string, string>): History {
+  const history: History = new Map();
+  const base = mergeComponentLayers(layers, componentName)?._extends;
+  if (typeof base === 'string') {
+    for (const [path, sources] of getComponentHistory(layers, base, origins)) {
+      history.set(path, [...sources]);
+    }
+  }
+  for (const layer of layers) {
+    const value = layer.values[componentName];
+    if (isUnsetMarker(value)) {
+      history.clear();
+    } else if (isComponentValue(value)) {
+      recordLeaves(history, value, '', layer, componentName, origins);
+    }
+  }
+  return history;
+}
+
+function getGlobalHistory(layers: ConfigLayer[], origins?: Map<string, string>): History {
+  const history: History = new Map();
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer.values)) {
+      if (key.startsWith('_') || isComponentValue(value)) continue;
+      if (isUnsetMarker(value)) {
+        history.delete(key);
+        continue;
+      }
+      const file = origins?.get(`${layer.source}.${key}`);
+      history.set(key, [...(history.get(key) ?? []), { layer: layer.source, layerPath: key, value, ...(file ? { file } : {}) }]);
+    }
+  }
+  return history;
+}
+
+/**
+ * Find the sources recorded for a path, or for its closest ancestor (for values that resolve to objects,
+ * e.g. a `$ref` to a component).
+ */
+function findSources(history: History, path: string): ProvenanceSource[] | undefined {
+  const segments = path.split('.');
+  for (let length = segments.length; length > 0; length--) {
+    const sources = history.get(segments.slice(0, length).join('.'));
+    if (sources) return sources;
+  }
+  return undefined;
+}
+
+function collectLeaves(value: ConfigValue, path: string, leaves: [string, ConfigValue][]): void {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      collectLeaves(child, path ? `${path}.${key}` : key, leaves);
+    }
+  } else {
+    leaves.push([path, value]);
+  }
+}
+
+/**
+ * Trace every leaf value of a merged result back to the layer values that set and were overridden for it.
+ * `hoistedComponent` is the component whose values were hoisted to the root of the result, and `metadata`
+ * holds the dynamic target metadata added to the result, as placed in it (e.g. under `_meta`). `origins` maps config paths to the files defining them.
+ */
+export function collectProvenance(
+  layers: ConfigLayer[],
+  result: Record<string, ConfigValue>,
+  options: { hoistedComponent?: string; metadata?: Record<string, ConfigValue>; origins?: Map<string, string> } = {}
+): ProvenanceEntry[] {
+  const { hoistedComponent, metadata = {}, origins } = options;
+  const globalHistory = getGlobalHistory(layers, origins);
+  const componentHistories = new Map<string, History>();
+  function componentHistory(name: string): History | undefined {
+    if (!layers.some(layer => isComponentValue(layer.values[name]))) {
+      return undefined;
+    }
+    if (!componentHistories.has(name)) {
+      componentHistories.set(name, getComponentHistory(layers, name, origins));
+    }
+    return componentHistories.get(name);
+  }
+
+  const leaves: [string, ConfigValue][] = [];
+  collectLeaves(result, '', leaves);
+
+  return leaves.map(([path, value]) => {
+    const [first = '', ...rest] = path.split('.');
+    let sources: ProvenanceSource[] | undefined;
+    if (Object.hasOwn(metadata, first)) {
+      sources = [{ layer: 'metadata', layerPath: path, value }];
+    } else if (hoistedComponent) {
+      sources = findSources(componentHistory(hoistedComponent) ?? new Map(), path) ?? findSources(globalHistory, path);
+    } else {
+      const history = componentHistory(first);
+      sources = history ? findSources(history, rest.join('.')) : findSources(globalHistory, path);
+    }
+    return {
+      path,
+      value,
+      source: sources?.[sources.length - 1] ?? null,
+      overrides: sources?.slice(0, -1) ?? [],
+    };
+  });
+}
@@ -0,0 +1,349 @@
+import { getEphemeralTemplateEnvironments, resolveEnvironmentChain } from './layers.js';
+import type {
+  DeploymentConfig,
+  EnvironmentConfig,
+  ParsedTarget,
+  RegionCatalog,
+  RegionFullName,
+  RegionProvider,
+  RegionShortCode,
+} from '../types/index.js';
+
+// Region mapping: short code -> full name
+export const AwsRegionMapping: Record<RegionShortCode, RegionFullName> = {
+  'use1': 'us-east-1',
+  'use2': 'us-east-2',
+  'usw1': 'us-west-1',
+  'usw2': 'us-west-2',
+  'usge1': 'us-gov-east-1',
+  'usgw1': 'us-gov-west-1',
+  'cac1': 'ca-central-1',
+  'caw1': 'ca-west-1',
+  'mxc1': 'mx-central-1',
+  'sae1': 'sa-east-1',
+  'euw1': 'eu-west-1',
+  'euw2': 'eu-west-2',
+  'euw3': 'eu-west-3',
+  'euc1': 'eu-central-1',
+  'euc2': 'eu-central-2',
+  'eun1': 'eu-north-1',
+  'eus1': 'eu-south-1',
+  'eus2': 'eu-south-2',
+  'afs1': 'af-south-1',
+  'ilc1': 'il-central-1',
+  'mec1': 'me-central-1',
+  'mes1': 'me-south-1',
+  'aps1': 'ap-south-1',
+  'aps2': 'ap-south-2',
+  'apne1': 'ap-northeast-1',
+  'apne2': 'ap-northeast-2',
+  'apne3': 'ap-northeast-3',
+  'apse1': 'ap-southeast-1',
+  'apse2': 'ap-southeast-2',
+  'apse3': 'ap-southeast-3',
+  'apse4': 'ap-southeast-4',
+  'apse5': 'ap-southeast-5',
+  'apse6': 'ap-southeast-6',
+  'apse7': 'ap-southeast-7',
+  'ape1': 'ap-east-1',
+  'ape2': 'ap-east-2',
+  'cnn1': 'cn-north-1',
+  'cnnw1': 'cn-northwest-1'
+};
+
+// Reverse mapping: full name -> short code
+export const AwsRegionToShortCode: Record<RegionFullName, RegionShortCode> = Object.fromEntries(
+  Object.entries(AwsRegionMapping).map(([short, full]) => [full, short])
+) as Record<RegionFullName, RegionShortCode>;
+
+export const AwsRegionCatalog: RegionCatalog = { provider: 'aws', regions: AwsRegionMapping };
+
+// Short codes abbreviate each word of the region name and keep its number (e.g. us-central1 -> usc1)
+export const GcpRegionCatalog: RegionCatalog = {
+  provider: 'gcp',
+  regions: {
+    'usc1': 'us-central1',
+    'use1': 'us-east1',
+    'use4': 'us-east4',
+    'use5': 'us-east5',
+    'uss1': 'us-south1',
+    'usw1': 'us-west1',
+    'usw2': 'us-west2',
+    'usw3': 'us-west3',
+    'usw4': 'us-west4',
+    'nane1': 'northamerica-northeast1',
+    'nane2': 'northamerica-northeast2',
+    'nas1': 'northamerica-south1',
+    'sae1': 'southamerica-east1',
+    'saw1': 'southamerica-west1',
+    'euc2': 'europe-central2',
+    'eun1': 'europe-north1',
+    'eun2': 'europe-north2',
+    'eusw1': 'europe-southwest1',
+    'euw1': 'europe-west1',
+    'euw2': 'europe-west2',
+    'euw3': 'europe-west3',
+    'euw4': 'europe-west4',
+    'euw6': 'europe-west6',
+    'euw8': 'europe-west8',
+    'euw9': 'europe-west9',
+    'euw10': 'europe-west10',
+    'euw12': 'europe-west12',
+    'mec1': 'me-central1',
+    'mec2': 'me-central2',
+    'mew1': 'me-west1',
+    'afs1': 'africa-south1',
+    'ase1': 'asia-east1',
+    'ase2': 'asia-east2',
+    'asne1': 'asia-northeast1',
+    'asne2': 'asia-northeast2',
+    'asne3': 'asia-northeast3',
+    'ass1': 'asia-south1',
+    'ass2': 'asia-south2',
+    'asse1': 'asia-southeast1',
+    'asse2': 'asia-southeast2',
+    'ause1': 'australia-southeast1',
+    'ause2': 'australia-southeast2'
+  }
+};
+
+// Short codes follow the common Azure naming abbreviations (e.g. eastus2 -> eus2, westeurope -> weu)
+export const AzureRegionCatalog: RegionCatalog = {
+  provider: 'azure',
+  regions: {
+    'eus': 'eastus',
+    'eus2': 'eastus2',
+    'wus': 'westus',
+    'wus2': 'westus2',
+    'wus3': 'westus3',
+    'cus': 'centralus',
+    'ncus': 'northcentralus',
+    'scus': 'southcentralus',
+    'wcus': 'westcentralus',
+    'cac': 'canadacentral',
+    'cae': 'canadaeast',
+    'mxc': 'mexicocentral',
+    'brs': 'brazilsouth',
+    'brse': 'brazilsoutheast',
+    'clc': 'chilecentral',
+    'neu': 'northeurope',
+    'weu': 'westeurope',
+    'uks': 'uksouth',
+    'ukw': 'ukwest',
+    'frc': 'francecentral',
+    'frs': 'francesouth',
+    'gwc': 'germanywestcentral',
+    'gn': 'germanynorth',
+    'szn': 'switzerlandnorth',
+    'szw': 'switzerlandwest',
+    'nwe': 'norwayeast',
+    'nww': 'norwaywest',
+    'sdc': 'swedencentral',
+    'sds': 'swedensouth',
+    'plc': 'polandcentral',
+    'itn': 'italynorth',
+    'spc': 'spaincentral',
+    'uaen': 'uaenorth',
+    'uaec': 'uaecentral',
+    'qac': 'qatarcentral',
+    'ilc': 'israelcentral',
+    'san': 'southafricanorth',
+    'saw': 'southafricawest',
+    'ea': 'eastasia',
+    'sea': 'southeastasia',
+    'jpe': 'japaneast',
+    'jpw': 'japanwest',
+    'krc': 'koreacentral',
+    'krs': 'koreasouth',
+    'inc': 'centralindia',
+    'ins': 'southindia',
+    'inw': 'westindia',
+    'jinc': 'jioindiacentral',
+    'jinw': 'jioindiawest',
+    'idc': 'indonesiacentral',
+    'myw': 'malaysiawest',
+    'ae': 'australiaeast',
+    'ase': 'australiasoutheast',
+    'acl': 'australiacentral',
+    'acl2': 'australiacentral2',
+    'nzn': 'newzealandnorth'
+  }
+};
+
+/**
+ * Built-in region catalogs by provider
+ */
+export const RegionCatalogs: Record<RegionProvider, RegionCatalog> = {
+  aws: AwsRegionCatalog,
+  gcp: GcpRegionCatalog,
+  azure: AzureRegionCatalog,
+};
+
+/**
+ * Get the region aliases of a config: its `_regions` map of short codes to full region names.
+ */
+export function getRegionAliases(config: DeploymentConfig): Record<string, string> {
+  const aliases = config._regions;
+  if (aliases === undefined) {
+    return {};
+  }
+  if (aliases === null || typeof aliases !== 'object' || Array.isArray(aliases)
+    || Object.entries(aliases).some(([code, fullRegion]) => code === '' || typeof fullRegion !== 'string' || fullRegion === '')) {
+    throw new Error('Invalid _regions value. Expected a map of region short codes to full region names (e.g. { "pdx": "us-west-2" })');
+  }
+  return aliases;
+}
+
+/**
+ * Add the `_regions` aliases of a config to a region catalog (AWS by default). An alias applies to the catalog when
+ * the catalog has its full region name; an alias for a region no built-in catalog has adds the region to the AWS
+ * catalog. An alias replaces the catalog's short code for the same code, and becomes the short code of its full
+ * region name; the other short codes stay valid.
+ */
+export function getConfigRegionCatalog(config: DeploymentConfig, catalog: RegionCatalog = AwsRegionCatalog): RegionCatalog {
+  const aliases = Object.entries(getRegionAliases(config)).filter(([, fullRegion]) =>
+    Object.values(catalog.regions).includes(fullRegion) || (catalog.provider === 'aws' && !isBuiltinRegion(fullRegion)));
+  if (aliases.length === 0) {
+    return catalog;
+  }
+  const codes = new Set(aliases.map(([code]) => code));
+  const builtin = Object.entries(catalog.regions).filter(([code]) => !codes.has(code));
+  return { provider: catalog.provider, regions: Object.fromEntries([...aliases, ...builtin]) };
+}
+
+// Whether any built-in catalog has a full region name
+function isBuiltinRegion(fullRegion: string): boolean {
+  return Object.values(RegionCatalogs).some(catalog => Object.values(catalog.regions).includes(fullRegion));
+}
+
+// A catalog as given, or the AWS catalog with the aliases of a config
+function toCatalog(source: RegionCatalog | DeploymentConfig): RegionCatalog {
+  return 'provider' in source ? source : getConfigRegionCatalog(source);
+}
+
+/**
+ * Get the short region code from a full region name. Uses the given catalog, or the AWS catalog with the
+ * `_regions` aliases of the given config.
+ */
+export function getRegionShortCode(fullRegion: string, source: RegionCatalog | DeploymentConfig = AwsRegionCatalog): string {
+  const catalog = toCatalog(source);
+  return Object.keys(catalog.regions).find(code => catalog.regions[code] === fullRegion) ?? fullRegion;
+}
+
+/**
+ * Get the full region name from a short code. Uses the given catalog, or the AWS catalog with the `_regions`
+ * aliases of the given config.
+ */
+export function getRegionFullName(shortCode: string, source: RegionCatalog | DeploymentConfig = AwsRegionCatalog): string {
+  const catalog = toCatalog(source);
+  return Object.hasOwn(catalog.regions, shortCode) ? catalog.regions[shortCode]! : shortCode;
+}
+
+/**
+ * Check whether a region is in a catalog, as a short code or a full name.
+ */
+export function isCatalogRegion(catalog: RegionCatalog, region: string): boolean {
+  return Object.hasOwn(catalog.regions, region) || Object.values(catalog.regions).includes(region);
+}
+
+/**
+ * Get the region catalog of an environment: the `_provider` of the environment, or else of the closest base
+ * environment that sets one (see resolveEnvironmentChain), defaulting to AWS. The `_regions` aliases of the config
+ * are added to it.
+ */
+export function getEnvironmentRegionCatalog(config: DeploymentConfig, envName: string, baseEnvironment?: string): RegionCatalog {
+  const envSource: Record<string, EnvironmentConfig> = config.environments ?? {};
+  const chain = resolveEnvironmentChain(envSource, envName, baseEnvironment);
+  const definingEnv = [...chain].reverse().find(name => envSource[name]?._provider !== undefined);
+  if (definingEnv === undefined) {
+    return getConfigRegionCatalog(config);
+  }
+  const provider = envSource[definingEnv]!._provider;
+  if (typeof provider !== 'string' || !Object.hasOwn(RegionCatalogs, provider)) {
+    throw new Error(`Environment '${definingEnv}' has an unknown _provider '${String(provider)}'. Known providers: ${Object.keys(RegionCatalogs).join(', ')}`);
+  }
+  return getConfigRegionCatalog(config, RegionCatalogs[provider as RegionProvider]);
+}
+
+/**
+ * Split a region suffix of a catalog (full name, or else short code) off a target ID.
+ */
+function findRegionSuffix(target: string, catalog: RegionCatalog): ParsedTarget | undefined {
+  // Try to find a full region name at the end of the target first (longer match takes priority)
+  for (const fullRegion of Object.values(catalog.regions)) {
+    const suffix = `-${fullRegion}`;
+    if (target.endsWith(suffix)) {
+      return { env: target.slice(0, -suffix.length), region: fullRegion };
+    }
+  }
+
+  // Try to find a region short code at the end of the target
+  for (const [regionCode, fullRegion] of Object.entries(catalog.regions)) {
+    const suffix = `-${regionCode}`;
+    if (target.endsWith(suffix)) {
+      return { env: target.slice(0, -suffix.length), region: fullRegion };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a target ID into environment and region components.
+ * Target format: environmentname[-region] where region can be either:
+ *   - Short code (e.g., 'dev-usw2')
+ *   - Full region name (e.g., 'dev-us-west-2')
+ * Returns the full region name (e.g., 'us-west-2') in the result.
+ * When the config is given, the region is read with the catalog of the environment the rest of the target names, or
+ * else (for ephemeral environment names) with the catalogs of the ephemeral template environments, including the
+ * config's `_regions` aliases. Targets naming a region group (e.g. 'dev-eu') are rejected since groups are not
+ * deployable.
+ */
+export function parseTarget(target: string, config?: DeploymentConfig): ParsedTarget {
+  if (config?.regionGroups && !config.environments?.[target]) {
+    for (const [group, regions] of Object.entries(config.regionGroups)) {
+      const suffix = `-${group}`;
+      if (target.endsWith(suffix) && config.environments?.[target.slice(0, -suffix.length)]) {
+        throw new Error(`Target '${target}' refers to region group '${group}', which is not deployable. Use one of its regions: ${regions.join(', ')}`);
+      }
+    }
+  }
+
+  for (const { catalog, accepts } of getTargetCandidates(target, config)) {
+    const parsed = findRegionSuffix(target, catalog);
+    if (parsed && accepts(parsed.env)) {
+      return parsed;
+    }
+  }
+
+  // No region found, entire target is the environment name
+  return { env: target, region: undefined };
+}
+
+interface TargetCandidate {
+  catalog: RegionCatalog;
+  /** Whether the environment name left after splitting off the region resolves with this catalog */
+  accepts(env: string): boolean;
+}
+
+// Catalogs to read the region of a target with, in order of preference: the catalog of each environment the target
+// starts with (only when the rest of the target is that environment), then the catalogs of the ephemeral template
+// environments (only when the rest is an ephemeral name rather than another environment), then the AWS catalog
+function getTargetCandidates(target: string, config?: DeploymentConfig): TargetCandidate[] {
+  const envSource = config?.environments;
+  const fallback: TargetCandidate = { catalog: config ? getConfigRegionCatalog(config) : AwsRegionCatalog, accepts: () => true };
+  if (!envSource) {
+    return [fallback];
+  }
+  const prefixEnvs = Object.keys(envSource)
+    .filter(name => target.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)
+    .map(name => ({ catalog: getEnvironmentRegionCatalog(config, name), accepts: (env: string) => env === name }));
+  const templateEnvs = getEphemeralTemplateEnvironments(config)
+    .filter(name => Object.hasOwn(envSource, name))
+    .map(name => ({
+      catalog: getEnvironmentRegionCatalog(config, name),
+      accepts: (env: string) => env === name || !Object.hasOwn(envSource, env)
+    }));
+  return [...prefixEnvs, ...templateEnvs, fallback];
+}
@@ -0,0 +1,136 @@
+import { isPlainObject, isUnsetMarker, isValueDirective } from './utils.js';
+import { mergeTargetLayers } from './layers.js';
+import type { ConfigLayer } from './layers.js';
+import type { ConfigValue, RequiredPlaceholder, RequiredValueType } from '../types/index.js';
+
+const REQUIRED_VALUE_TYPES: RequiredValueType[] = ['string', 'number', 'boolean', 'array', 'object'];
+
+// Metadata keys that affect how required specs are inherited across layers
+const SPEC_METADATA_KEYS = new Set(['_replace', '_extends', '_abstract']);
+
+/**
+ * A missing or invalid value for a `$required` placeholder
+ */
+export interface RequiredValueProblem {
+  path: string;
+  /** True when the placeholder was never overridden, false when the override is invalid */
+  missing: boolean;
+  message: string;
+  description?: string;
+}
+
+/**
+ * Check whether a value is a `{ "$required": ... }` placeholder.
+ */
+export function isRequiredPlaceholder(value: unknown): value is RequiredPlaceholder {
+  return isPlainObject(value) && value.$required !== undefined;
+}
+
+function describe(placeholder: RequiredPlaceholder): string {
+  return placeholder.description ? ` (${placeholder.description})` : '';
+}
+
+/**
+ * Find the first `$required` placeholder that has not been overridden, returning its path and description.
+ */
+export function findMissingRequiredValue(
+  obj: Record<string, ConfigValue>,
+  path: string = ''
+): { path: string; description?: string } | null {
+  for (const [key, value] of Object.entries(obj)) {
+    const currentPath = path ? `${path}.${key}` : key;
+    if (isRequiredPlaceholder(value)) {
+      return { path: currentPath, description: value.description };
+    }
+    if (isPlainObject(value) && !isValueDirective(value)) {
+      const missing = findMissingRequiredValue(value, currentPath);
+      if (missing) return missing;
+    }
+  }
+  return null;
+}
+
+/**
+ * Keep only the `$required` placeholders of a layer (plus the markers that control inheritance),
+ * so merging the projections yields the placeholder that applies to each path even after it is overridden.
+ */
+function projectRequiredSpecs(values: Record<string, ConfigValue>): Record<string, ConfigValue> {
+  const result: Record<string, ConfigValue> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (isRequiredPlaceholder(value) || isUnsetMarker(value) || SPEC_METADATA_KEYS.has(key)) {
+      result[key] = value;
+    } else if (isPlainObject(value) && !isValueDirective(value)) {
+      result[key] = projectRequiredSpecs(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Collect the `$required` placeholders that apply to a target, keyed by their path in the merged configuration.
+ * Later layers may redeclare a placeholder; component templates (`_extends`) pass their placeholders on.
+ */
+export function collectRequiredSpecs(layers: ConfigLayer[]): Record<string, ConfigValue> {
+  return mergeTargetLayers(layers.map(layer => ({ source: layer.source, values: projectRequiredSpecs(layer.values) })));
+}
+
+function checkRequiredValue(value: ConfigValue, placeholder: RequiredPlaceholder, path: string): string | null {
+  const type = placeholder.$required;
+  if (type !== true && !REQUIRED_VALUE_TYPES.includes(type)) {
+    throw new Error(`Invalid $required type '${String(type)}' at path: ${path}. Expected true or one of: ${REQUIRED_VALUE_TYPES.join(', ')}`);
+  }
+
+  const actualType = Array.isArray(value) ? 'array' : typeof value;
+  if (type !== true && actualType !== type) {
+    return `Value at path: ${path} must be of type '${type}'${describe(placeholder)}`;
+  }
+
+  if (placeholder.pattern !== undefined && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(placeholder.pattern);
+    } catch {
+      throw new Error(`Invalid $required pattern '${placeholder.pattern}' at path: ${path}`);
+    }
+    if (!regex.test(String(value))) {
+      return `Value at path: ${path} does not match the required pattern '${placeholder.pattern}'${describe(placeholder)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a merged configuration against the `$required` placeholders that apply to it.
+ * Returns the first placeholder that was not overridden, or whose override has the wrong type or does not match the
+ * pattern. Paths absent from the value are skipped. With `allowUnresolved`, values that still contain placeholders,
+ * references or secrets are not validated.
+ */
+export function findRequiredValueProblem(
+  value: Record<string, ConfigValue>,
+  specs: Record<string, ConfigValue>,
+  path: string = '',
+  options: { allowUnresolved?: boolean } = {}
+): RequiredValueProblem | null {
+  for (const [key, spec] of Object.entries(specs)) {
+    const currentPath = path ? `${path}.${key}` : key;
+    const current = value[key];
+    if (current === undefined) continue;
+
+    if (isRequiredPlaceholder(spec)) {
+      if (isRequiredPlaceholder(current)) {
+        return { path: currentPath, missing: true, message: `Missing required value at path: ${currentPath}${describe(current)}`, description: current.description };
+      }
+      const unresolved = isValueDirective(current) || (typeof current === 'string' && current.includes('${'));
+      if (unresolved && options.allowUnresolved) continue;
+
+      const message = checkRequiredValue(current, spec, currentPath);
+      if (message) {
+        return { path: currentPath, missing: false, message, description: spec.description };
+      }
+    } else if (isPlainObject(spec) && isPlainObject(current) && !isValueDirective(current)) {
+      const problem = findRequiredValueProblem(current, spec, currentPath, options);
+      if (problem) return problem;
+    }
+  }
+  return null;
+}
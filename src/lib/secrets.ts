@@ -0,0 +1,168 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import JSON5 from 'json5';
+import { isEnvVarAllowed } from './utils.js';
+import type { ConfigValue, SecretContext, SecretProvider } from '../types/index.js';
+
+const REDACTED = '***';
+
+/**
+ * Get the reference of a `{ "$secret": "<scheme>:<reference>" }` value, or undefined if the value is not a secret.
+ */
+export function getSecretReference(value: ConfigValue): string | undefined {
+  if (value && typeof value === 'object' && !Array.isArray(value) && typeof value.$secret === 'string') {
+    return value.$secret;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the path of a secret file against the config directory. Absolute paths and paths leaving the directory are
+ * rejected, so a config can't read other files of the runner (e.g. /proc/self/environ).
+ */
+function resolveSecretFilePath(file: string, baseDir: string): string {
+  if (path.isAbsolute(file)) {
+    throw new Error(`Secret file '${file}' must be a path relative to the config file`);
+  }
+  const filePath = path.resolve(baseDir, file);
+  const relative = path.relative(path.resolve(baseDir), filePath);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Secret file '${file}' is outside the config directory`);
+  }
+  return filePath;
+}
+
+/**
+ * Built-in provider for `file:<path>#<key.path>` references.
+ * The file is parsed as JSON5 and the dot-notation key path selects the secret; without a key path the whole
+ * file content (trimmed) is the secret. Paths are relative to the config file and must stay inside its directory.
+ */
+export function createFileSecretProvider(): SecretProvider {
+  const cache = new Map<string, string>();
+
+  function readFile(filePath: string): string {
+    if (!cache.has(filePath)) {
+      try {
+        cache.set(filePath, fs.readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        const err = error as Error;
+        throw new Error(`Failed to read secret file '${filePath}': ${err.message}`);
+      }
+    }
+    return cache.get(filePath)!;
+  }
+
+  return {
+    resolve(reference: string, context: SecretContext): string {
+      const [file = '', keyPath] = reference.split('#', 2);
+      const filePath = resolveSecretFilePath(file, context.baseDir);
+      const content = readFile(filePath);
+      if (keyPath === undefined) {
+        return content.trim();
+      }
+
+      let value = JSON5.parse(content) as ConfigValue;
+      for (const segment of keyPath.split('.')) {
+        value = value && typeof value === 'object' && !Array.isArray(value) && Object.hasOwn(value, segment)
+          ? value[segment]
+          : undefined;
+      }
+      if (value === undefined || value === null || typeof value === 'object') {
+        throw new Error(`Secret '${keyPath}' not found in '${filePath}' (or is not a string, number or boolean)`);
+      }
+      return String(value);
+    }
+  };
+}
+
+/**
+ * Built-in provider for `env:<NAME>` references. Only variables matched by `allowedEnvVars`
+ * (exact names or prefixes ending in '*') can be read, as for `${env:NAME}` placeholders.
+ */
+export function createEnvSecretProvider(
+  allowedEnvVars: string[] = [],
+  envVars: Record<string, string | undefined> = process.env
+): SecretProvider {
+  return {
+    resolve(reference: string): string {
+      if (!isEnvVarAllowed(reference, allowedEnvVars)) {
+        throw new Error(`Environment variable '${reference}' is not allowed. Add it to the allowed environment variables to use it`);
+      }
+      const value = envVars[reference];
+      if (value === undefined) {
+        throw new Error(`Environment variable '${reference}' is not set`);
+      }
+      return value;
+    }
+  };
+}
+
+/**
+ * Split a secret reference into its scheme and the reference passed to the scheme's provider
+ * (e.g. 'ssm:/dev/db' into 'ssm' and '/dev/db'). A reference without a scheme has the empty scheme.
+ */
+export function splitSecretReference(reference: string): [scheme: string, providerReference: string] {
+  const separator = reference.indexOf(':');
+  return separator === -1 ? ['', reference] : [reference.slice(0, separator), reference.slice(separator + 1)];
+}
+
+/**
+ * Find the `$secret` references in a configuration value, in document order without duplicates.
+ */
+export function findSecretReferences(value: ConfigValue): string[] {
+  const references = new Set<string>();
+  function visit(current: ConfigValue): void {
+    const reference = getSecretReference(current);
+    if (reference !== undefined) {
+      references.add(reference);
+    } else if (Array.isArray(current)) {
+      current.forEach(visit);
+    } else if (current && typeof current === 'object') {
+      Object.values(current).forEach(visit);
+    }
+  }
+  visit(value);
+  return Array.from(references);
+}
+
+/**
+ * Resolve a secret reference with the provider registered for its scheme.
+ */
+export function resolveSecretReference(
+  reference: string,
+  providers: Record<string, SecretProvider>,
+  context: SecretContext
+): string {
+  const [scheme, providerReference] = splitSecretReference(reference);
+  const provider = Object.hasOwn(providers, scheme) ? providers[scheme] : undefined;
+  if (!provider) {
+    throw new Error(`Unknown secret provider '${scheme}' for secret at path: ${context.path}. Available providers: ${Object.keys(providers).join(', ')}`);
+  }
+  try {
+    return provider.resolve(providerReference, context);
+  } catch (error) {
+    const err = error as Error;
+    throw new Error(`Failed to resolve secret at path: ${context.path}: ${err.message}`);
+  }
+}
+
+/**
+ * Replace every occurrence of the given secret values in a configuration value with '***'.
+ */
+export function redactSecrets<T extends ConfigValue>(value: T, secrets: Iterable<string>): T {
+  // Longest first, so a secret that contains another one is fully redacted
+  const values = Array.from(new Set(secrets)).filter(secret => secret !== '').sort((a, b) => b.length - a.length);
+  function redact(current: ConfigValue): ConfigValue {
+    if (typeof current === 'string') {
+      return values.reduce((str, secret) => str.split(secret).join(REDACTED), current);
+    }
+    if (Array.isArray(current)) {
+      return current.map(redact);
+    }
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, redact(item)]));
+    }
+    return current;
+  }
+  return redact(value) as T;
+}
@@ -1,38 +1,184 @@
-import type { ConfigValue } from '../types/index.js';
+import type { ArrayMergeStrategy, ConfigValue } from '../types/index.js';
 
 /**
- * Deep merge multiple objects. Later objects override earlier ones.
- * Arrays are not merged - they are replaced entirely.
+ * Effective array merge settings at one level of a merge.
+ * `all` applies to every array at and below this level; `paths` holds per-key-path
+ * strategies relative to this level (dot notation).
  */
-export function deepMerge<T extends Record<string, unknown>>(...objects: (T | null | undefined)[]): T {
-  const result = {} as T;
+interface ArrayMergeScope {
+  all?: ArrayMergeStrategy;
+  paths: Record<string, ArrayMergeStrategy>;
+}
+
+/**
+ * Check whether a value is a config object (not null, an array or a primitive).
+ */
+export function isPlainObject(value: unknown): value is Record<string, ConfigValue> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is the `{ "$unset": true }` marker, which removes an inherited key during a merge.
+ */
+export function isUnsetMarker(value: unknown): boolean {
+  return isPlainObject(value) && value.$unset === true;
+}
+
+/**
+ * Check whether a value is a value directive: an object with `$`-prefixed keys (e.g. `{ "$ref": "network.vpc_cidr" }`).
+ * Directives are atomic values; they replace (and are replaced by) other values instead of being deep merged.
+ */
+export function isValueDirective(value: unknown): boolean {
+  return isPlainObject(value) && Object.keys(value).some(key => key.startsWith('$'));
+}
+
+function assertArrayMergeStrategy(value: unknown): ArrayMergeStrategy {
+  if (
+    value === 'replace' ||
+    value === 'append' ||
+    value === 'prepend' ||
+    value === 'unique' ||
+    (typeof value === 'string' && /^byKey:.+$/.test(value))
+  ) {
+    return value as ArrayMergeStrategy;
+  }
+  throw new Error(`Invalid _arrayMerge strategy '${String(value)}'. Expected one of: replace, append, prepend, unique, byKey:<field>`);
+}
+
+/**
+ * Combine an inherited scope with the `_arrayMerge` declarations of the objects merged at this level.
+ * Later declarations take precedence over earlier ones.
+ */
+function resolveArrayMergeScope(inherited: ArrayMergeScope, objects: Record<string, unknown>[]): ArrayMergeScope {
+  const scope: ArrayMergeScope = { all: inherited.all, paths: { ...inherited.paths } };
   for (const obj of objects) {
-    if (!obj || typeof obj !== 'object') continue;
-    for (const key of Object.keys(obj) as (keyof T)[]) {
-      const objValue = obj[key];
-      const resultValue = result[key];
-      if (
-        objValue &&
-        typeof objValue === 'object' &&
-        !Array.isArray(objValue) &&
-        resultValue &&
-        typeof resultValue === 'object' &&
-        !Array.isArray(resultValue)
-      ) {
-        result[key] = deepMerge(
-          resultValue as Record<string, unknown>,
-          objValue as Record<string, unknown>
-        ) as T[keyof T];
-      } else {
-        result[key] = objValue as T[keyof T];
+    const spec = obj._arrayMerge;
+    if (spec === undefined) continue;
+    if (isPlainObject(spec)) {
+      for (const [keyPath, strategy] of Object.entries(spec)) {
+        scope.paths[keyPath] = assertArrayMergeStrategy(strategy);
+      }
+    } else {
+      scope.all = assertArrayMergeStrategy(spec);
+    }
+  }
+  return scope;
+}
+
+/**
+ * Derive the scope for the object stored under `key`.
+ * A path strategy that targets an object applies to every array within it.
+ */
+function descendArrayMergeScope(scope: ArrayMergeScope, key: string): ArrayMergeScope {
+  const child: ArrayMergeScope = { all: scope.paths[key] ?? scope.all, paths: {} };
+  const prefix = `${key}.`;
+  for (const [keyPath, strategy] of Object.entries(scope.paths)) {
+    if (keyPath.startsWith(prefix)) {
+      child.paths[keyPath.slice(prefix.length)] = strategy;
+    }
+  }
+  return child;
+}
+
+function mergeArrays(base: unknown[], incoming: unknown[], strategy: ArrayMergeStrategy, scope: ArrayMergeScope): unknown[] {
+  switch (strategy) {
+    case 'append':
+      return [...base, ...incoming];
+    case 'prepend':
+      return [...incoming, ...base];
+    case 'unique': {
+      const seen = new Set<string>();
+      return [...base, ...incoming].filter(item => {
+        const identity = JSON.stringify(item);
+        if (seen.has(identity)) return false;
+        seen.add(identity);
+        return true;
+      });
+    }
+    case 'replace':
+      return incoming;
+    default: {
+      // byKey:<field> - items sharing the same field value are deep merged, others are appended
+      const field = strategy.slice('byKey:'.length);
+      const result = [...base];
+      for (const item of incoming) {
+        const index = isPlainObject(item) && item[field] !== undefined
+          ? result.findIndex(existing => isPlainObject(existing) && existing[field] === item[field])
+          : -1;
+        if (index === -1) {
+          result.push(item);
+        } else {
+          const merged: Record<string, unknown> = {};
+          const itemScope = resolveArrayMergeScope(scope, [result[index] as Record<string, unknown>, item as Record<string, unknown>]);
+          mergeInto(merged, result[index] as Record<string, unknown>, itemScope);
+          mergeInto(merged, item as Record<string, unknown>, itemScope);
+          result[index] = merged;
+        }
       }
+      return result;
+    }
+  }
+}
+
+function mergeInto(result: Record<string, unknown>, obj: Record<string, unknown>, scope: ArrayMergeScope): void {
+  for (const key of Object.keys(obj)) {
+    const objValue = obj[key];
+    const resultValue = result[key];
+    if (isUnsetMarker(objValue)) {
+      delete result[key];
+    } else if (isValueDirective(objValue)) {
+      result[key] = objValue;
+    } else if (isPlainObject(objValue)) {
+      // Objects flagged with _replace discard the inherited object instead of merging into it
+      const inherit = isPlainObject(resultValue) && !isValueDirective(resultValue) && objValue._replace !== true;
+      const sources = inherit ? [resultValue, objValue] : [objValue];
+      const childScope = resolveArrayMergeScope(descendArrayMergeScope(scope, key), sources);
+      const merged: Record<string, unknown> = {};
+      for (const source of sources) {
+        mergeInto(merged, source, childScope);
+      }
+      result[key] = merged;
+    } else if (Array.isArray(objValue) && Array.isArray(resultValue)) {
+      const strategy = scope.paths[key] ?? scope.all ?? 'replace';
+      result[key] = mergeArrays(resultValue, objValue, strategy, descendArrayMergeScope(scope, key));
+    } else {
+      result[key] = objValue;
     }
   }
-  return result;
+}
+
+/**
+ * Deep merge multiple objects. Later objects override earlier ones.
+ * Arrays are replaced entirely unless an `_arrayMerge` strategy is declared on an enclosing object,
+ * either as a single strategy for all arrays below it or as a map of key paths to strategies.
+ * A `{ "$unset": true }` value removes the key inherited from earlier objects, and an object flagged with
+ * `_replace: true` replaces the inherited object at its path instead of being merged into it.
+ */
+export function deepMerge<T extends Record<string, unknown>>(...objects: (T | null | undefined)[]): T {
+  const sources = objects.filter((obj): obj is T => isPlainObject(obj));
+  const scope = resolveArrayMergeScope({ paths: {} }, sources);
+  const result: Record<string, unknown> = {};
+  for (const obj of sources) {
+    if (obj._replace === true) {
+      for (const key of Object.keys(result)) delete result[key];
+    }
+    mergeInto(result, obj, scope);
+  }
+  return result as T;
+}
+
+/**
+ * Merge the value stored under a single key across layers, honoring a `$unset` marker on the key itself.
+ * Returns undefined when no layer defines the key or the last layer that mentions it removes it.
+ */
+export function mergeKeyAcrossLayers<T>(key: string, ...layers: (Record<string, unknown> | null | undefined)[]): T | undefined {
+  const scoped = layers.map(layer => (layer && key in layer ? { [key]: layer[key] } : undefined));
+  return deepMerge<Record<string, unknown>>(...scoped)[key] as T | undefined;
 }
 
 /**
  * Find the first null value in an object, returning its dot-notation path.
+ * Keys removed with a `$unset` marker are treated as absent.
  */
 export function findNullValue(obj: Record<string, ConfigValue>, path: string = ''): string | null {
   for (const [key, value] of Object.entries(obj)) {
@@ -40,6 +186,7 @@ export function findNullValue(obj: Record<string, ConfigValue>, path: string = '
     if (value === null) {
       return currentPath;
     }
+    if (isUnsetMarker(value)) continue;
     if (value && typeof value === 'object' && !Array.isArray(value)) {
       const nullPath = findNullValue(value as Record<string, ConfigValue>, currentPath);
       if (nullPath) return nullPath;
@@ -47,3 +194,18 @@ export function findNullValue(obj: Record<string, ConfigValue>, path: string = '
   }
   return null;
 }
+
+/**
+ * Check whether an environment variable is matched by an allowlist of exact names or prefixes ending in '*'.
+ */
+export function isEnvVarAllowed(name: string, allowed: string[]): boolean {
+  return allowed.some(entry => entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry);
+}
+
+/**
+ * Check whether a name matches a pattern in which '*' matches any sequence of characters.
+ */
+export function matchesWildcard(pattern: string, name: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(name);
+}
@@ -20,6 +20,8 @@ export interface EnvironmentComponentsAvailability {
   environment: string;
   valid: boolean; // Whether this environment has any valid components
   components: ComponentEnvLevelAvailability[];
+  /** Keys of the environment's ephemeral overrides (names or wildcard patterns), if any */
+  overrides?: string[];
 }
 
 /**
@@ -31,6 +33,8 @@ export interface EnvLevelAvailability {
   regions?: RegionalComponentValidity[];
   /** True if the component is marked as region-agnostic */
   regionAgnostic?: boolean;
+  /** Keys of the environment's ephemeral overrides that configure the component, if any */
+  overrides?: string[];
 }
 
 export interface EnvironmentEnvLevelAvailability extends EnvLevelAvailability {
@@ -1,9 +1,26 @@
+import { RegionProvider } from "./mergeConfigTypes.js";
+
 /**
  * Full deployment configuration file structure
  */
 export interface DeploymentConfig {
   defaults?: DefaultsConfig;
   environments?: Record<string, EnvironmentConfig>;
+  /** Named groups of regions (e.g. { eu: ['eu-west-1', 'eu-central-1'] }) usable as keys in an environment's regions */
+  regionGroups?: Record<string, string[]>;
+  /** Branch prefixes that select an ephemeral environment config, checked in order (e.g. 'perf/' -> 'perf-ephemeral') */
+  _ephemeral?: EphemeralTemplate[];
+  /** Region short codes added to (or replacing codes of) the catalogs that have the region, e.g. { pdx: 'us-west-2' } */
+  _regions?: Record<string, string>;
+}
+
+/**
+ * Maps branches starting with a prefix to the environment config used for their ephemeral environments.
+ * The ephemeral environment name is the rest of the branch name.
+ */
+export interface EphemeralTemplate {
+  prefix: string;
+  environment: string;
 }
 
 /**
@@ -14,11 +31,91 @@ export interface DefaultsConfig {
 }
 
 /**
- * Reserved metadata keys that are stripped from output.
- * These keys start with underscore and control configuration behavior.
+ * Where a metadata key may appear:
+ *   - config: the top level of the configuration
+ *   - defaults / environment / region: directly in the defaults, an environment (or one of its overrides) or a region block
+ *   - overlay: directly in an overlay
+ *   - component: a component object, in any layer
+ *   - value: an object nested in a component (including list items)
+ */
+export type MetadataKeyLocation = 'config' | 'defaults' | 'environment' | 'region' | 'overlay' | 'component' | 'value';
+
+/**
+ * Value type of a metadata key ('string[]' is a list of strings, 'array' any list)
+ */
+export type MetadataValueType = 'boolean' | 'string' | 'string[]' | 'object' | 'array';
+
+export interface MetadataKeySpec {
+  locations: readonly MetadataKeyLocation[];
+  types: readonly MetadataValueType[];
+}
+
+/**
+ * Registry of metadata keys. Keys starting with underscore control configuration behavior and are stripped from
+ * output; any key that is not registered here (or is used in the wrong place, or with the wrong value type) is
+ * reported by metadata key validation.
+ */
+export const METADATA_KEYS = {
+  _regionAgnostic: { locations: ['component'], types: ['boolean'] },
+  _arrayMerge: { locations: ['component', 'value'], types: ['string', 'object'] },
+  _replace: { locations: ['component', 'value'], types: ['boolean'] },
+  _extends: { locations: ['component', 'environment'], types: ['string', 'string[]'] },
+  _abstract: { locations: ['component'], types: ['boolean'] },
+  _when: { locations: ['component', 'value'], types: ['object'] },
+  _baseEnvironment: { locations: ['environment'], types: ['string'] },
+  _provider: { locations: ['environment'], types: ['string'] },
+  _ephemeral: { locations: ['config'], types: ['array'] },
+  _regions: { locations: ['config'], types: ['object'] },
+} as const satisfies Record<string, MetadataKeySpec>;
+export type MetadataKey = keyof typeof METADATA_KEYS;
+
+/**
+ * Metadata keys that may appear on component objects
  */
-export const COMPONENT_METADATA_KEYS = ['_regionAgnostic'] as const;
-export type ComponentMetadataKey = (typeof COMPONENT_METADATA_KEYS)[number];
+export const COMPONENT_METADATA_KEYS = (Object.keys(METADATA_KEYS) as MetadataKey[])
+  .filter(key => (METADATA_KEYS[key].locations as readonly MetadataKeyLocation[]).includes('component'));
+export type ComponentMetadataKey = {
+  [K in MetadataKey]: 'component' extends (typeof METADATA_KEYS)[K]['locations'][number] ? K : never
+}[MetadataKey];
+
+/**
+ * How arrays are combined when a later layer overrides an earlier one.
+ *   - replace: later array replaces the earlier one (default)
+ *   - append / prepend: later items are added after / before the earlier ones
+ *   - unique: like append, but duplicate items are dropped
+ *   - byKey:<field>: object items with the same <field> value are deep merged, others are appended
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'prepend' | 'unique' | `byKey:${string}`;
+
+/**
+ * Value of the _arrayMerge metadata key: a single strategy for every array in the object,
+ * or a map of dot-notation key paths (relative to the object) to strategies.
+ */
+export type ArrayMergeSpec = ArrayMergeStrategy | Record<string, ArrayMergeStrategy>;
+
+/**
+ * Condition on the target metadata (env_name, env_config_name, region, region_short, is_ephemeral), used by
+ * `_when` and `$if`. Every key must match; a list value matches any of its entries.
+ */
+export type ConditionSpec = Record<string, ConfigValue>;
+
+/**
+ * Value type a `$required` placeholder accepts (`true` accepts any type)
+ */
+export type RequiredValueType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Typed required-field placeholder, a richer alternative to `null`:
+ * `{ "$required": "string", "description": "VPC CIDR for this region", "pattern": "^10\\." }`.
+ * The value must be overridden by a later layer; the override is validated against the type and pattern.
+ */
+export interface RequiredPlaceholder {
+  $required: RequiredValueType | true;
+  /** Explains the expected value; included in errors and list-environments reasons */
+  description?: string;
+  /** Regular expression that string, number and boolean values must match */
+  pattern?: string;
+}
 
 /**
  * Component configuration object.
@@ -28,6 +125,16 @@ export type ComponentMetadataKey = (typeof COMPONENT_METADATA_KEYS)[number];
 export interface ComponentConfig {
   /** If true, this component is region-agnostic and list-environments will only show env-level targets */
   _regionAgnostic?: boolean;
+  /** Array merge strategy for this component's arrays (see ArrayMergeSpec) */
+  _arrayMerge?: ArrayMergeSpec;
+  /** If true, this object replaces the inherited component instead of being merged into it (also valid on nested objects) */
+  _replace?: boolean;
+  /** Name of a base component (template) this component inherits from */
+  _extends?: string;
+  /** If true, this component is a template: it can be inherited from but is never resolved on its own */
+  _abstract?: boolean;
+  /** Condition on the target metadata; the block's values only override earlier layers when it matches */
+  _when?: ConditionSpec;
   [key: string]: ConfigValue;
 }
 
@@ -39,12 +146,29 @@ export interface RegionConfig {
 }
 
 /**
- * Environment configuration
+ * Environment configuration.
+ * Keys of `regions` can be full region names, region group names (from `regionGroups`) or wildcard patterns
+ * (e.g. 'eu-*'). Group and pattern blocks are merged between the environment and exact region layers.
  */
 export interface EnvironmentConfig {
+  /** Base environment(s) this environment inherits from (resolved as defaults -> base env(s) -> env -> region) */
+  _extends?: string | string[];
+  /**
+   * Environment this one is derived from, applied before the `_extends` bases (e.g. `ephemeral` based on `dev`).
+   * For ephemeral targets it can be replaced per branch with the ephemeralBase option.
+   */
+  _baseEnvironment?: string;
+  /** Cloud provider whose region catalog reads the environment's regions and targets (default: 'aws', or the base's) */
+  _provider?: RegionProvider;
   accountId?: string;
   regions?: Record<string, RegionConfig>;
-  [key: string]: ConfigValue | ComponentConfig | Record<string, RegionConfig> | undefined;
+  /**
+   * Per-instance overrides of the ephemeral environment, keyed by the name derived from the branch or by a wildcard
+   * pattern (e.g. 'perf-*'). Matching blocks are merged after the environment and its regions, each followed by its
+   * own regions. Only reserved in ephemeral template environments; elsewhere `overrides` is a component.
+   */
+  overrides?: Record<string, EnvironmentConfig>;
+  [key: string]: ConfigValue | ComponentConfig | Record<string, RegionConfig> | Record<string, EnvironmentConfig> | undefined;
 }
 
 /**
@@ -0,0 +1,22 @@
+import { ConfigValue } from "./deploymentConfigTypes.js";
+import { RegionProvider } from "./mergeConfigTypes.js";
+
+/**
+ * Context passed to config functions
+ */
+export interface ConfigFunctionContext {
+  /** Dot-notation path of the value holding the function call */
+  path: string;
+  /** Named arguments: the keys of the `$fn` object other than `$fn` and `args` (already resolved) */
+  params: Record<string, ConfigValue>;
+  /** Full target configuration, including the target metadata (env_name, region, ...) */
+  target: Record<string, ConfigValue>;
+  /** Cloud provider of the target's region catalog */
+  provider: RegionProvider;
+}
+
+/**
+ * A function callable from config values as `{ "$fn": "<name>", "args": [...] }`.
+ * Functions receive resolved arguments and return a value; they never evaluate config content as code.
+ */
+export type ConfigFunction = (args: ConfigValue[], context: ConfigFunctionContext) => ConfigValue;
@@ -2,4 +2,5 @@ export * from './deploymentConfigTypes.js';
 export * from './componentValidityTypes.js';
 export * from './mergeConfigTypes.js';
 export * from './cliTypes.js';
-
+export * from './secretTypes.js';
+export * from './functionTypes.js';
@@ -1,15 +1,19 @@
 import { ConfigValue, DeploymentConfig } from "./deploymentConfigTypes.js";
+import { SecretProvider } from "./secretTypes.js";
+import { ConfigFunction } from "./functionTypes.js";
 
 /**
  * Options for mergeConfig function
  */
 export interface MergeConfigOptions {
-  /** Path to configuration file or parsed config object */
+  /** Path to configuration file or directory, or a parsed config object */
   configFile: string | DeploymentConfig;
-  /** Environment name */
-  env: string;
+  /** Environment name (required unless target is given) */
+  env?: string;
   /** Region code or name (optional) */
   region?: string;
+  /** Target Deployment ID in format: environment[-region] (e.g., dev-usw2); use instead of env/region */
+  target?: string;
   /** Output format: 'json' or 'flatten' */
   output?: 'json' | 'flatten';
   /** Delimiter for flattened output */
@@ -20,14 +24,58 @@ export interface MergeConfigOptions {
   disableEphemeralBranchCheck?: boolean;
   /** Branch name for ephemeral environments */
   branchName?: string | null;
+  /**
+   * Normalize ephemeral environment names instead of rejecting branches with other characters: lowercase the name
+   * and replace characters other than letters, numbers, hyphens and underscores (including slashes) with hyphens
+   */
+  normalizeEphemeralName?: boolean;
+  /** Maximum length of normalized ephemeral names; longer names are truncated and get a short hash suffix */
+  ephemeralNameMaxLength?: number;
+  /** Base environment for ephemeral targets, replacing the `_baseEnvironment` of the ephemeral environment config */
+  ephemeralBase?: string;
   /** Component to hoist to root level */
   component?: string | null;
   /** Whether to hoist component to root level (default: true when component specified) */
   hoist?: boolean;
+  /** Overlay files (or parsed objects) with component/global values applied on top of the target, in order */
+  overlays?: (string | Record<string, ConfigValue>)[];
+  /** Environment variables that `${env:NAME}` placeholders may read: exact names or prefixes ending in '*' (default: none) */
+  allowedEnvVars?: string[];
+  /** Secret providers by scheme for `{ "$secret": "<scheme>:<reference>" }` values; added to the built-in `file` and `env` providers */
+  secretProviders?: Record<string, SecretProvider>;
+  /** Called with each resolved secret value, e.g. to mask it in logs */
+  onSecret?: (value: string) => void;
+  /** Functions callable from `{ "$fn": "<name>", "args": [...] }` values; added to (or replacing) the built-in functions */
+  functions?: Record<string, ConfigFunction>;
+  /** Called with the provenance of every leaf value in the result */
+  onProvenance?: (provenance: ProvenanceEntry[]) => void;
+  /**
+   * How metadata problems are reported: unknown or misplaced metadata keys (keys starting with underscore), and
+   * metadata fields that would overwrite keys of the resolved config. By default unknown keys fail and overwritten
+   * values are warnings; 'strict' fails on both and 'lenient' warns on both
+   */
+  metadataValidation?: MetadataValidationMode;
+  /** Called with each warning, e.g. metadata problems in lenient mode (default: console.warn) */
+  onWarning?: (message: string) => void;
+  /** Where the dynamic metadata fields (env_name, region, etc.) are added to the result (default: 'root') */
+  metadataPlacement?: MetadataPlacement;
+  /** Prefix of the metadata field names with the 'prefix' placement (e.g. 'udc_' for udc_env_name) */
+  metadataPrefix?: string;
 }
 
 /**
- * Merged configuration result with metadata
+ * How metadata problems are reported: 'strict' throws an error, 'lenient' reports a warning
+ */
+export type MetadataValidationMode = 'strict' | 'lenient';
+
+/**
+ * Where the dynamic metadata fields are added to the result: at the root ('root'), under a `_meta` object ('meta')
+ * or at the root with the metadataPrefix prepended to their names ('prefix')
+ */
+export type MetadataPlacement = 'root' | 'meta' | 'prefix';
+
+/**
+ * Merged configuration result with metadata (at the root, the default metadata placement)
  */
 export interface MergedConfig {
   env_name: string;
@@ -35,6 +83,8 @@ export interface MergedConfig {
   region: string;
   region_short: string;
   is_ephemeral: boolean;
+  /** Branch the ephemeral environment was derived from (only for ephemeral environments) */
+  branch_name?: string;
   [key: string]: ConfigValue;
 }
 
@@ -50,27 +100,79 @@ export interface FlattenedConfig {
  * AWS Region short code (e.g., 'usw2', 'use1')
  */
 export type RegionShortCode =
-  | 'use1' | 'use2' | 'usw1' | 'usw2'
-  | 'cac1' | 'euw1' | 'euw2' | 'euw3' | 'euc1' | 'eun1'
-  | 'aps1' | 'apne1' | 'apne2' | 'apne3' | 'apse1' | 'apse2' | 'apse3' | 'ape1'
-  | 'sae1';
+  | 'use1' | 'use2' | 'usw1' | 'usw2' | 'usge1' | 'usgw1'
+  | 'cac1' | 'caw1' | 'mxc1' | 'sae1'
+  | 'euw1' | 'euw2' | 'euw3' | 'euc1' | 'euc2' | 'eun1' | 'eus1' | 'eus2'
+  | 'afs1' | 'ilc1' | 'mec1' | 'mes1'
+  | 'aps1' | 'aps2' | 'apne1' | 'apne2' | 'apne3' | 'apse1' | 'apse2' | 'apse3' | 'apse4' | 'apse5' | 'apse6' | 'apse7'
+  | 'ape1' | 'ape2' | 'cnn1' | 'cnnw1';
 
 /**
  * AWS Region full name (e.g., 'us-west-2', 'us-east-1')
  */
 export type RegionFullName =
-  | 'us-east-1' | 'us-east-2' | 'us-west-1' | 'us-west-2'
-  | 'ca-central-1' | 'eu-west-1' | 'eu-west-2' | 'eu-west-3' | 'eu-central-1' | 'eu-north-1'
-  | 'ap-south-1' | 'ap-northeast-1' | 'ap-northeast-2' | 'ap-northeast-3'
-  | 'ap-southeast-1' | 'ap-southeast-2' | 'ap-southeast-3' | 'ap-east-1'
-  | 'sa-east-1';
+  | 'us-east-1' | 'us-east-2' | 'us-west-1' | 'us-west-2' | 'us-gov-east-1' | 'us-gov-west-1'
+  | 'ca-central-1' | 'ca-west-1' | 'mx-central-1' | 'sa-east-1'
+  | 'eu-west-1' | 'eu-west-2' | 'eu-west-3' | 'eu-central-1' | 'eu-central-2' | 'eu-north-1' | 'eu-south-1' | 'eu-south-2'
+  | 'af-south-1' | 'il-central-1' | 'me-central-1' | 'me-south-1'
+  | 'ap-south-1' | 'ap-south-2' | 'ap-northeast-1' | 'ap-northeast-2' | 'ap-northeast-3'
+  | 'ap-southeast-1' | 'ap-southeast-2' | 'ap-southeast-3' | 'ap-southeast-4' | 'ap-southeast-5' | 'ap-southeast-6'
+  | 'ap-southeast-7' | 'ap-east-1' | 'ap-east-2' | 'cn-north-1' | 'cn-northwest-1';
 
+/**
+ * Cloud provider whose region catalog an environment uses, selected with `_provider` (default: 'aws')
+ */
+export type RegionProvider = 'aws' | 'gcp' | 'azure';
 
 /**
- * Parsed target result
+ * The regions of a cloud provider: full region names by short code (e.g. usw2 -> us-west-2)
+ */
+export interface RegionCatalog {
+  provider: RegionProvider;
+  regions: Readonly<Record<string, string>>;
+}
+
+
+/**
+ * Parsed target result. The region is the full name in the region catalog of the target's environment.
  */
 export interface ParsedTarget {
   env: string;
-  region: RegionFullName | undefined;
+  region: string | undefined;
+}
+
+/**
+ * A layer value that contributed to a resolved path
+ */
+export interface ProvenanceSource {
+  /** Layer the value comes from, e.g. 'defaults', 'environments.dev', 'environments.dev.regions.us-west-2' or 'overlay:<file>' */
+  layer: string;
+  /** Path of the value within the layer (differs from the result path for hoisted or templated components) */
+  layerPath: string;
+  /** Value as written in the layer, before interpolation, conditions and functions */
+  value: ConfigValue;
+  /** File that defines the value, when the config was loaded from disk (e.g. an included file) */
+  file?: string;
+}
+
+/**
+ * Provenance of a leaf value in a merged configuration
+ */
+export interface ProvenanceEntry {
+  /** Dot-notation path in the result */
+  path: string;
+  /** Resolved value */
+  value: ConfigValue;
+  /** Layer value that set the path (null if it can't be traced, e.g. computed by a function returning an object) */
+  source: ProvenanceSource | null;
+  /** Earlier layer values the source overrode (or, for merged arrays, was combined with), in merge order */
+  overrides: ProvenanceSource[];
 }
 
+/**
+ * Result of explainConfig: the merged configuration plus provenance
+ */
+export interface ExplainResult {
+  config: MergedConfig;
+  provenance: ProvenanceEntry[];
+}
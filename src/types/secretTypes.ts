@@ -0,0 +1,19 @@
+/**
+ * Context passed to secret providers when resolving a reference
+ */
+export interface SecretContext {
+  /** Directory of the config file (or the config directory); relative paths resolve against it */
+  baseDir: string;
+  /** Dot-notation path of the value holding the secret reference */
+  path: string;
+}
+
+/**
+ * Resolves secret references for one scheme, e.g. `file` in `{ "$secret": "file:./secrets/dev.json#db.password" }`.
+ * Resolution is synchronous; for remote stores (SSM, Vault, ...) fetch the references from listSecretReferences up
+ * front and return the fetched values.
+ */
+export interface SecretProvider {
+  /** Resolve a reference (the part after '<scheme>:') to the secret value */
+  resolve(reference: string, context: SecretContext): string;
+}
@@ -10,14 +10,24 @@ locals {
     "--terraform",
   ]
 
-  target_args    = local.use_target ? ["--target", var.target] : ["--env", var.env, "--region", var.region]
+  target_args = local.use_target ? ["--target", var.target] : concat(
+    var.env != "" ? ["--env", var.env] : [],
+    var.region != "" ? ["--region", var.region] : [],
+  )
+  branch_args    = var.branch_name != "" ? ["--branch-name", var.branch_name] : []
   debug_args     = var.debug ? ["--debug"] : []
   component_args = var.component != "" ? ["--component", var.component] : []
   hoist_args     = var.component != "" && !var.hoist ? ["--no-hoist"] : []
+
+  metadata_args = concat(
+    var.metadata_validation != "" ? ["--metadata-validation", var.metadata_validation] : [],
+    ["--metadata-placement", var.metadata_placement],
+    var.metadata_prefix != "" ? ["--metadata-prefix", var.metadata_prefix] : [],
+  )
 }
 
 data "external" "merged_config" {
-  program = concat(local.base_args, local.target_args, local.debug_args, local.component_args, local.hoist_args)
+  program = concat(local.base_args, local.target_args, local.branch_args, local.debug_args, local.component_args, local.hoist_args, local.metadata_args)
 }
 
 locals {
@@ -21,6 +21,12 @@ variable "region" {
   default     = ""
 }
 
+variable "branch_name" {
+  description = "Branch name for ephemeral environments. With the config's _ephemeral templates, env can be left empty to derive the environment from it."
+  type        = string
+  default     = ""
+}
+
 variable "debug" {
   description = "Enable debug output to stderr for troubleshooting"
   type        = bool
@@ -38,3 +44,21 @@ variable "hoist" {
   type        = bool
   default     = true
 }
+
+variable "metadata_validation" {
+  description = "How metadata problems are reported: strict fails, lenient warns. By default unknown keys fail and metadata overwriting config values warns."
+  type        = string
+  default     = ""
+}
+
+variable "metadata_placement" {
+  description = "Where the metadata fields (env_name, region, etc.) are placed: root, meta (under _meta) or prefix."
+  type        = string
+  default     = "root"
+}
+
+variable "metadata_prefix" {
+  description = "Prefix of the metadata field names with metadata_placement prefix (e.g. 'udc_')."
+  type        = string
+  default     = ""
+}
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity } from '../src/lib/component-discovery.js';
+import { deepMerge } from '../src/lib/utils.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('array merge strategies', () => {
+  test('should replace arrays by default', () => {
+    const result = deepMerge({ list: ['a', 'b'] }, { list: ['c'] });
+    expect(result.list).toEqual(['c']);
+  });
+
+  test('should apply a component-wide strategy to all arrays', () => {
+    const result = deepMerge(
+      { _arrayMerge: 'append', zones: ['a'], nested: { groups: ['x'] } },
+      { zones: ['b'], nested: { groups: ['y'] } }
+    );
+    expect(result.zones).toEqual(['a', 'b']);
+    expect(result.nested).toEqual({ groups: ['x', 'y'] });
+  });
+
+  test('should support prepend and unique strategies', () => {
+    expect(deepMerge({ _arrayMerge: 'prepend', list: ['a'] }, { list: ['b'] }).list).toEqual(['b', 'a']);
+    expect(deepMerge({ _arrayMerge: 'unique', list: ['a', 'b'] }, { list: ['b', 'c'] }).list).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should merge object items by key', () => {
+    const result = deepMerge(
+      { _arrayMerge: { subnets: 'byKey:name' }, subnets: [{ name: 'public', cidr: '10.0.0.0/24' }, { name: 'private', cidr: null }] },
+      { subnets: [{ name: 'private', cidr: '10.0.1.0/24' }, { name: 'db', cidr: '10.0.2.0/24' }] }
+    );
+    expect(result.subnets).toEqual([
+      { name: 'public', cidr: '10.0.0.0/24' },
+      { name: 'private', cidr: '10.0.1.0/24' },
+      { name: 'db', cidr: '10.0.2.0/24' }
+    ]);
+  });
+
+  test('should scope path strategies to the given key path', () => {
+    const result = deepMerge(
+      { _arrayMerge: { 'nested.zones': 'append' }, zones: ['a'], nested: { zones: ['a'] } },
+      { zones: ['b'], nested: { zones: ['b'] } }
+    );
+    expect(result.zones).toEqual(['b']);
+    expect(result.nested).toEqual({ zones: ['a', 'b'] });
+  });
+
+  test('should honor a strategy declared in a later layer', () => {
+    const result = deepMerge({ list: ['a'] }, { _arrayMerge: 'append', list: ['b'] });
+    expect(result.list).toEqual(['a', 'b']);
+  });
+
+  test('should reject unknown strategies', () => {
+    expect(() => deepMerge({ _arrayMerge: 'merge', list: ['a'] }, { list: ['b'] }))
+      .toThrow("Invalid _arrayMerge strategy 'merge'");
+  });
+
+  test('should apply strategy in mergeConfig and strip _arrayMerge from output', () => {
+    const config: DeploymentConfig = {
+      defaults: {
+        network: {
+          _arrayMerge: { security_groups: 'append' },
+          security_groups: ['sg-base']
+        }
+      },
+      environments: {
+        dev: {
+          regions: {
+            'us-west-2': {
+              network: { security_groups: ['sg-region'] }
+            }
+          }
+        }
+      }
+    };
+
+    const result = mergeConfig({
+      configFile: config,
+      env: 'dev',
+      region: 'usw2',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result.network).toEqual({ security_groups: ['sg-base', 'sg-region'] });
+  });
+
+  test('should agree with checkComponentValidity for byKey merges', () => {
+    const config: DeploymentConfig = {
+      defaults: {
+        network: {
+          _arrayMerge: 'byKey:name',
+          subnets: [{ name: 'private', cidr: '10.0.1.0/24' }],
+          vpc: { zones: ['a'], cidr: null }
+        }
+      },
+      environments: {
+        dev: {
+          network: {
+            subnets: [{ name: 'public', cidr: '10.0.0.0/24' }],
+            vpc: { zones: [{ name: 'b' }], cidr: '10.0.0.0/16' }
+          }
+        },
+        prod: {}
+      }
+    };
+    const envSource = config.environments!;
+
+    expect(checkComponentValidity(config, envSource, 'dev', null, 'network')).toEqual({ valid: true, hasConfig: true });
+    expect(checkComponentValidity(config, envSource, 'prod', null, 'network')).toEqual({ valid: false, reason: 'null_value_at_vpc.cidr' });
+
+    const result = mergeConfig({ configFile: config, env: 'dev', output: 'json' }) as MergedConfig;
+    expect(result.network).toEqual({
+      subnets: [
+        { name: 'private', cidr: '10.0.1.0/24' },
+        { name: 'public', cidr: '10.0.0.0/24' }
+      ],
+      vpc: { zones: ['a', { name: 'b' }], cidr: '10.0.0.0/16' }
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkAllComponentsAvailability, checkComponentValidity, getAllComponentNames } from '../src/lib/component-discovery.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('abstract component templates', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      serviceBase: {
+        _abstract: true,
+        cpu: 256,
+        memory: 512,
+        image: null,
+        tags: { Tier: 'service' }
+      },
+      api: {
+        _extends: 'serviceBase',
+        image: 'api:latest',
+        port: 8080
+      },
+      worker: {
+        _extends: 'serviceBase',
+        memory: 1024
+      }
+    },
+    environments: {
+      dev: {
+        worker: { image: 'worker:latest' }
+      },
+      prod: {
+        serviceBase: { cpu: 1024 },
+        api: { tags: { Public: 'true' } }
+      }
+    }
+  };
+
+  test('should inherit settings from the base component', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', output: 'json' }) as MergedConfig;
+    expect(result.api).toEqual({ cpu: 256, memory: 512, image: 'api:latest', port: 8080, tags: { Tier: 'service' } });
+    expect(result.worker).toEqual({ cpu: 256, memory: 1024, image: 'worker:latest', tags: { Tier: 'service' } });
+  });
+
+  test('should resolve the base component for the target before applying the derived component', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', output: 'json', component: 'api' }) as MergedConfig;
+    expect(result.cpu).toBe(1024);
+    expect(result.tags).toEqual({ Tier: 'service', Public: 'true' });
+  });
+
+  test('should never emit abstract components', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', output: 'json' }) as MergedConfig;
+    expect(result.serviceBase).toBeUndefined();
+    expect(() => mergeConfig({ configFile: config, env: 'dev', output: 'json', component: 'serviceBase' }))
+      .toThrow("Component 'serviceBase' not found or is not a valid component in the merged configuration");
+  });
+
+  test('should skip abstract components in component discovery', () => {
+    expect(getAllComponentNames(config)).toEqual(['api', 'worker']);
+    expect(checkComponentValidity(config, config.environments!, 'dev', null, 'serviceBase'))
+      .toEqual({ valid: false, reason: 'component_abstract' });
+
+    const result = checkAllComponentsAvailability(config);
+    const prod = result.environments.find(e => e.environment === 'prod')!;
+    expect(prod.components.map(c => [c.component, c.available])).toEqual([['api', true], ['worker', false]]);
+    expect(prod.components.find(c => c.component === 'worker')?.envLevel.reason).toBe('null_value_at_image');
+  });
+
+  test('should report unknown base components and cycles', () => {
+    const missing: DeploymentConfig = {
+      defaults: { api: { _extends: 'nope' } },
+      environments: { dev: {} }
+    };
+    expect(() => mergeConfig({ configFile: missing, env: 'dev', output: 'json' }))
+      .toThrow("Component 'api' extends unknown component 'nope'");
+
+    const cyclic: DeploymentConfig = {
+      defaults: { a: { _extends: 'b' }, b: { _extends: 'a' } },
+      environments: { dev: {} }
+    };
+    expect(() => mergeConfig({ configFile: cyclic, env: 'dev', output: 'json' }))
+      .toThrow('Component inheritance cycle detected: a -> b -> a');
+  });
+});
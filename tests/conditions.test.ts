@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity } from '../src/lib/component-discovery.js';
+import { applyWhenBlocks, evaluateConditions } from '../src/lib/conditions.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('conditional values', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      app: {
+        instance_type: { $if: { is_ephemeral: true }, then: 't4g.small', else: 't4g.large' },
+        replicas: { $if: { env_config_name: ['prod', 'staging'] }, then: 3, else: 1 },
+        alarms: { _when: { is_ephemeral: false }, email: 'ops@example.com' },
+        debug_port: { $if: { env_name: 'dev' }, then: 9229 }
+      },
+      bastion: { _when: { region: 'us-west-2' }, size: 'small' },
+      log_retention: { $if: { is_ephemeral: true }, then: 3, else: 30 }
+    },
+    environments: {
+      dev: { regions: { 'us-west-2': {}, 'us-east-1': {} } },
+      prod: { regions: { 'us-west-2': {} } },
+      ephemeral: { regions: { 'us-west-2': {} } }
+    }
+  };
+
+  test('should pick $if branches and keep matching _when objects', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', region: 'usw2', output: 'json' }) as MergedConfig;
+
+    expect(result.app).toEqual({ instance_type: 't4g.large', replicas: 3, alarms: { email: 'ops@example.com' } });
+    expect(result.bastion).toEqual({ size: 'small' });
+    expect(result.log_retention).toBe(30);
+  });
+
+  test('should evaluate against ephemeral metadata', () => {
+    const result = mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      region: 'usw2',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/feature-x',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result.app).toEqual({ instance_type: 't4g.small', replicas: 1, alarms: {} });
+    expect(result.log_retention).toBe(3);
+  });
+
+  test('should keep components whose _when condition does not match', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', region: 'use1', output: 'json' }) as MergedConfig;
+
+    expect(result.bastion).toEqual({});
+    expect(result.app).toMatchObject({ debug_port: 9229 });
+    expect(mergeConfig({ configFile: config, env: 'dev', region: 'use1', component: 'bastion', output: 'json' }))
+      .not.toHaveProperty('size');
+  });
+
+  test('should merge _when blocks into earlier layers only when they match', () => {
+    const layered: DeploymentConfig = {
+      defaults: { app: { instance_type: 't4g.large', replicas: 2 } },
+      environments: {
+        dev: {
+          app: { _when: { region: 'us-west-2' }, replicas: 4 },
+          regions: { 'us-west-2': {}, 'us-east-1': {} }
+        }
+      }
+    };
+    const resolve = (region: string) => mergeConfig({ configFile: layered, env: 'dev', region, component: 'app', output: 'json' });
+
+    expect(resolve('usw2')).toMatchObject({ instance_type: 't4g.large', replicas: 4 });
+    expect(resolve('use1')).toMatchObject({ instance_type: 't4g.large', replicas: 2 });
+  });
+
+  test('should let later layers override conditional values', () => {
+    const overridden: DeploymentConfig = {
+      ...config,
+      environments: { prod: { app: { instance_type: 'm7g.large' }, regions: { 'us-west-2': {} } } }
+    };
+    const result = mergeConfig({ configFile: overridden, env: 'prod', region: 'usw2', component: 'app', output: 'json' }) as MergedConfig;
+    expect(result.instance_type).toBe('m7g.large');
+  });
+
+  test('should drop conditional list items', () => {
+    const result = applyWhenBlocks(
+      { rules: [{ _when: { env_name: 'prod' }, port: 443 }, { port: 80 }] },
+      { env_name: 'dev' }
+    );
+    expect(result).toEqual({ rules: [{ port: 80 }] });
+  });
+
+  test('should reject unknown condition keys', () => {
+    expect(() => evaluateConditions({ app: { size: { $if: { account: '1' }, then: 1 } } }, {}))
+      .toThrow("Unknown condition key 'account' at path: app.size");
+  });
+
+  test('should evaluate conditions in checkComponentValidity', () => {
+    const envSource = config.environments!;
+    expect(checkComponentValidity(config, envSource, 'dev', 'us-west-2', 'bastion')).toEqual({ valid: true, hasConfig: false });
+    expect(checkComponentValidity(config, envSource, 'dev', 'us-east-1', 'bastion')).toEqual({ valid: true, hasConfig: false });
+
+    const withNull: DeploymentConfig = {
+      defaults: { app: { domain: { $if: { is_ephemeral: true }, then: 'preview.example.com', else: null } } },
+      environments: { dev: {}, ephemeral: {} }
+    };
+    expect(checkComponentValidity(withNull, withNull.environments!, 'dev', null, 'app')).toEqual({ valid: false, reason: 'null_value_at_domain' });
+    expect(checkComponentValidity(withNull, withNull.environments!, 'ephemeral', null, 'app')).toEqual({ valid: true, hasConfig: false });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { loadConfigFile, writeConfigDirectory } from '../src/lib/config-loader.js';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('directory config layout', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  const config: DeploymentConfig = {
+    regionGroups: { eu: ['eu-west-1', 'eu-central-1'] },
+    defaults: { app: { replicas: 1, domain: null } },
+    environments: {
+      dev: { app: { domain: 'dev.example.com' } },
+      prod: {
+        app: { domain: 'example.com' },
+        regions: {
+          'us-west-2': { app: { replicas: 4 } },
+          eu: { app: { replicas: 2 } }
+        }
+      }
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-directory-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeFile(relativePath: string, content: string): void {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+  }
+
+  test('should assemble a directory into the single-file shape', () => {
+    writeFile('config.json5', `{ regionGroups: { eu: ['eu-west-1', 'eu-central-1'] } }`);
+    writeFile('defaults.json5', `{ app: { replicas: 1, domain: null } }`);
+    writeFile('environments/dev.json5', `{ app: { domain: 'dev.example.com' } }`);
+    writeFile('environments/prod.json5', `{ app: { domain: 'example.com' } }`);
+    writeFile('environments/prod/regions/us-west-2.json5', `{ app: { replicas: 4 } }`);
+    writeFile('environments/prod/regions/eu.json5', `{ app: { replicas: 2 } }`);
+
+    const loaded = loadConfigFile(tempDir);
+    expect(loaded).toEqual(config);
+  });
+
+  test('should support region files for an environment without its own file', () => {
+    writeFile('defaults.json5', `{ app: { replicas: 1 } }`);
+    writeFile('environments/qa/regions/us-east-1.json5', `{ app: { replicas: 2 } }`);
+
+    expect(loadConfigFile(tempDir).environments).toEqual({ qa: { regions: { 'us-east-1': { app: { replicas: 2 } } } } });
+  });
+
+  test('should resolve includes inside directory files', () => {
+    writeFile('shared/app.json5', `{ replicas: 3 }`);
+    writeFile('defaults.json5', `{ app: { _include: './shared/app.json5' } }`);
+    writeFile('environments/dev.json5', `{}`);
+
+    expect(loadConfigFile(tempDir).defaults).toEqual({ app: { replicas: 3 } });
+  });
+
+  test('should merge from a directory', () => {
+    writeConfigDirectory(config, tempDir);
+
+    const result = mergeConfig({
+      configFile: tempDir,
+      env: 'prod',
+      region: 'euc1',
+      component: 'app',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result.replicas).toBe(2);
+    expect(result.domain).toBe('example.com');
+  });
+
+  test('should write the directory layout', () => {
+    writeConfigDirectory(config, tempDir);
+
+    expect(fs.readdirSync(tempDir).sort()).toEqual(['config.json5', 'defaults.json5', 'environments']);
+    expect(fs.readdirSync(path.join(tempDir, 'environments')).sort()).toEqual(['dev.json5', 'prod', 'prod.json5']);
+    expect(fs.readdirSync(path.join(tempDir, 'environments', 'prod', 'regions')).sort()).toEqual(['eu.json5', 'us-west-2.json5']);
+    expect(loadConfigFile(tempDir)).toEqual(config);
+  });
+
+  test('should convert between single-file and directory layouts with the CLI', () => {
+    const inputFile = path.join(tempDir, 'config.json5');
+    const outputDir = path.join(tempDir, 'out');
+    fs.writeFileSync(inputFile, JSON.stringify(config), 'utf8');
+
+    execSync(`node ${cliPath} convert "${inputFile}" "${outputDir}" --layout directory`, { stdio: 'pipe' });
+    expect(fs.existsSync(path.join(outputDir, 'environments', 'prod', 'regions', 'us-west-2.json5'))).toBe(true);
+
+    const result = execSync(`node ${cliPath} convert "${outputDir}"`, { encoding: 'utf8' });
+    expect(JSON.parse(result)).toEqual(config);
+  });
+
+  test('should resolve includes when splitting a file with the CLI', () => {
+    const inputFile = path.join(tempDir, 'config.json5');
+    const outputDir = path.join(tempDir, 'out');
+    const { defaults, ...rest } = config;
+    fs.writeFileSync(path.join(tempDir, 'defaults.json5'), JSON.stringify({ defaults }), 'utf8');
+    fs.writeFileSync(inputFile, JSON.stringify({ _include: 'defaults.json5', ...rest }), 'utf8');
+
+    execSync(`node ${cliPath} convert "${inputFile}" "${outputDir}" --layout directory`, { stdio: 'pipe' });
+    expect(loadConfigFile(outputDir)).toEqual(config);
+  });
+
+  test('should refuse a non-empty output directory without --force', () => {
+    const inputFile = path.join(tempDir, 'config.json5');
+    const outputDir = path.join(tempDir, 'out');
+    fs.writeFileSync(inputFile, JSON.stringify(config), 'utf8');
+    fs.mkdirSync(outputDir);
+    fs.writeFileSync(path.join(outputDir, 'notes.txt'), 'keep me', 'utf8');
+
+    expect(() => execSync(`node ${cliPath} convert "${inputFile}" "${outputDir}" --layout directory`, { stdio: 'pipe' }))
+      .toThrow(`Output directory '${outputDir}' is not empty. Use --force to write into it anyway`);
+    expect(fs.readdirSync(outputDir)).toEqual(['notes.txt']);
+
+    execSync(`node ${cliPath} convert "${inputFile}" "${outputDir}" --layout directory --force`, { stdio: 'pipe' });
+    expect(loadConfigFile(outputDir)).toEqual(config);
+  });
+
+  test('should require an output directory for the directory layout', () => {
+    const inputFile = path.join(tempDir, 'config.json5');
+    fs.writeFileSync(inputFile, JSON.stringify(config), 'utf8');
+
+    expect(() => execSync(`node ${cliPath} convert "${inputFile}" --layout directory`, { stdio: 'pipe' }))
+      .toThrow('An output directory is required for the directory layout');
+  });
+});
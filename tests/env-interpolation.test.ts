@@ -0,0 +1,87 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { interpolateConfig } from '../src/lib/interpolation.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('environment variable interpolation', () => {
+  const envVars = { GITHUB_SHA: 'abc123', CI_PIPELINE: '42', AWS_SECRET_ACCESS_KEY: 'secret' };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('should read allowed environment variables', () => {
+    const result = interpolateConfig(
+      { image_tag: '${env:GITHUB_SHA}', label: 'build-${env:CI_PIPELINE}' },
+      {},
+      { allowedEnvVars: ['GITHUB_SHA', 'CI_*'], envVars }
+    );
+    expect(result).toEqual({ image_tag: 'abc123', label: 'build-42' });
+  });
+
+  test('should fall back to the default when the variable is unset', () => {
+    const result = interpolateConfig(
+      { image_tag: '${env:IMAGE_TAG:-latest}', suffix: '${env:SUFFIX:-}' },
+      {},
+      { allowedEnvVars: ['IMAGE_TAG', 'SUFFIX'], envVars }
+    );
+    expect(result).toEqual({ image_tag: 'latest', suffix: '' });
+  });
+
+  test('should fail on unset variables without a default', () => {
+    expect(() => interpolateConfig({ app: { tag: '${env:IMAGE_TAG}' } }, {}, { allowedEnvVars: ['IMAGE_TAG'], envVars }))
+      .toThrow("Environment variable 'IMAGE_TAG' at path: app.tag is not set and has no default");
+  });
+
+  test('should reject variables that are not allowed', () => {
+    expect(() => interpolateConfig({ leak: '${env:AWS_SECRET_ACCESS_KEY}' }, {}, { envVars }))
+      .toThrow("Environment variable 'AWS_SECRET_ACCESS_KEY' at path: leak is not allowed");
+    expect(() => interpolateConfig({ leak: '${env:AWS_SECRET_ACCESS_KEY:-x}' }, {}, { allowedEnvVars: ['AWS_REGION', 'GITHUB_*'], envVars }))
+      .toThrow("Environment variable 'AWS_SECRET_ACCESS_KEY' at path: leak is not allowed");
+  });
+
+  test('should resolve environment variables in mergeConfig', () => {
+    vi.stubEnv('GITHUB_SHA', 'def456');
+    const config: DeploymentConfig = {
+      defaults: { app: { image_tag: '${env:GITHUB_SHA}', image: 'repo/app:${app.image_tag}' } },
+      environments: { dev: {} }
+    };
+
+    const result = mergeConfig({
+      configFile: config,
+      env: 'dev',
+      component: 'app',
+      output: 'json',
+      allowedEnvVars: ['GITHUB_SHA']
+    }) as MergedConfig;
+
+    expect(result.image_tag).toBe('def456');
+    expect(result.image).toBe('repo/app:def456');
+  });
+
+  test('should accept --allow-env in the CLI', () => {
+    const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+    const configFile = path.join(__dirname, '..', 'test-cfg.json5');
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-interpolation-test-'));
+    const overlayFile = path.join(tempDir, 'overlay.json');
+    fs.writeFileSync(overlayFile, JSON.stringify({ tfState: { build: '${env:CI_BUILD:-none}' } }), 'utf8');
+    const run = (args: string): string => execSync(
+      `node ${cliPath} resolve --config "${configFile}" --target dev-usw2 --component tfState --overlay "${overlayFile}" ${args}`,
+      { encoding: 'utf8', stdio: 'pipe', env: { ...process.env, CI_BUILD: '7' } }
+    );
+
+    try {
+      expect(JSON.parse(run('--allow-env "CI_*"')).build).toBe('7');
+      expect(() => run('')).toThrow("Environment variable 'CI_BUILD' at path: build is not allowed");
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentAvailability } from '../src/lib/component-discovery.js';
+import { resolveEnvironmentChain } from '../src/lib/layers.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('environment inheritance with _extends', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      app: { replicas: 1, domain: null, log_level: 'debug' }
+    },
+    environments: {
+      prod: {
+        accountId: '111111111111',
+        app: { replicas: 6, domain: 'example.com', log_level: 'warn' },
+        regions: {
+          'us-west-2': { app: { zone: 'usw2-zone' } },
+          'us-east-1': { app: { zone: 'use1-zone' } }
+        }
+      },
+      staging: {
+        _extends: 'prod',
+        accountId: '222222222222',
+        app: { replicas: 2, domain: 'staging.example.com' },
+        regions: {
+          'us-west-2': { app: { replicas: 3 } },
+          'eu-west-1': { app: { zone: 'euw1-zone' } }
+        }
+      },
+      preview: {
+        _extends: ['staging'],
+        app: { domain: 'preview.example.com' }
+      }
+    }
+  };
+
+  test('should resolve the inheritance chain base-first', () => {
+    expect(resolveEnvironmentChain(config.environments!, 'preview')).toEqual(['prod', 'staging', 'preview']);
+  });
+
+  test('should layer base environments between defaults and the environment', () => {
+    const result = mergeConfig({ configFile: config, env: 'staging', region: 'usw2', output: 'json' }) as MergedConfig;
+    expect(result.accountId).toBe('222222222222');
+    expect(result.app).toEqual({
+      replicas: 3,
+      domain: 'staging.example.com',
+      log_level: 'warn',
+      zone: 'usw2-zone'
+    });
+    expect(result._extends).toBeUndefined();
+  });
+
+  test('should inherit region blocks from base environments', () => {
+    const result = mergeConfig({ configFile: config, env: 'preview', region: 'use1', output: 'json' }) as MergedConfig;
+    expect(result.app).toEqual({
+      replicas: 2,
+      domain: 'preview.example.com',
+      log_level: 'warn',
+      zone: 'use1-zone'
+    });
+  });
+
+  test('should let environment values beat the region blocks of base environments', () => {
+    const overlapping: DeploymentConfig = {
+      defaults: { app: { size: 'default' } },
+      environments: {
+        dev: { app: { size: 'dev-env' }, regions: { 'us-west-2': { app: { size: 'dev-usw2' } }, 'us-east-1': {} } },
+        staging: { _extends: 'dev', app: { size: 'staging-env' }, regions: { 'us-east-1': { app: { size: 'staging-use1' } } } }
+      }
+    };
+    const resolve = (region: string) => (mergeConfig({ configFile: overlapping, env: 'staging', region, component: 'app', output: 'json' }) as MergedConfig).size;
+
+    expect(resolve('usw2')).toBe('staging-env');
+    expect(resolve('use1')).toBe('staging-use1');
+  });
+
+  test('should require a region when a base environment defines regions', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'preview', output: 'json', component: 'app' }))
+      .toThrow("Environment 'preview' has regions defined. You must specify a region. Available regions: us-west-2, us-east-1, eu-west-1");
+  });
+
+  test('should detect inheritance cycles', () => {
+    const cyclic: DeploymentConfig = {
+      environments: {
+        a: { _extends: 'b' },
+        b: { _extends: 'c' },
+        c: { _extends: 'a' }
+      }
+    };
+    expect(() => mergeConfig({ configFile: cyclic, env: 'a', output: 'json' }))
+      .toThrow('Environment inheritance cycle detected: a -> b -> c -> a');
+  });
+
+  test('should report unknown base environments', () => {
+    const missing: DeploymentConfig = {
+      environments: { staging: { _extends: 'prod' } }
+    };
+    expect(() => mergeConfig({ configFile: missing, env: 'staging', output: 'json' }))
+      .toThrow("Environment 'staging' extends unknown environment 'prod'");
+  });
+
+  test('should use the same chain in checkComponentAvailability', () => {
+    const result = checkComponentAvailability(config, 'app');
+    const preview = result.environments.find(e => e.environment === 'preview')!;
+    expect(preview.envLevel).toEqual({ valid: true, hasConfig: true, target: 'preview' });
+    expect(preview.regions?.map(r => r.target)).toEqual(['preview-usw2', 'preview-use1', 'preview-euw1']);
+  });
+});
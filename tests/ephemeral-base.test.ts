@@ -0,0 +1,137 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentAvailability } from '../src/lib/component-discovery.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('ephemeral base environment', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  const config: DeploymentConfig = {
+    defaults: {
+      account: { id: null },
+      network: { vpc_cidr: null, nat_gateways: 1 },
+      app: { replicas: 1 }
+    },
+    environments: {
+      dev: {
+        account: { id: '111111111111' },
+        network: { vpc_cidr: '10.1.0.0/16' },
+        regions: { 'us-west-2': { network: { nat_gateways: 2 } } }
+      },
+      staging: {
+        account: { id: '222222222222' },
+        network: { vpc_cidr: '10.2.0.0/16' },
+        regions: { 'us-east-1': {} }
+      },
+      ephemeral: {
+        _baseEnvironment: 'dev',
+        app: { replicas: 2 }
+      }
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ephemeral-base-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function resolveEphemeral(region: string, ephemeralBase?: string): MergedConfig {
+    return mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      region,
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/feature-x',
+      ephemeralBase,
+      output: 'json'
+    }) as MergedConfig;
+  }
+
+  test('should resolve as defaults -> base environment -> ephemeral -> region', () => {
+    const result = resolveEphemeral('usw2');
+
+    expect(result.env_name).toBe('feature-x');
+    expect(result.account).toEqual({ id: '111111111111' });
+    expect(result.network).toEqual({ vpc_cidr: '10.1.0.0/16', nat_gateways: 2 });
+    expect(result.app).toEqual({ replicas: 2 });
+  });
+
+  test('should let ephemeral values beat the region blocks of the base environment', () => {
+    const overlapping: DeploymentConfig = {
+      environments: {
+        dev: { app: { size: 'dev-env' }, regions: { 'us-west-2': { app: { size: 'dev-usw2' } } } },
+        ephemeral: { _baseEnvironment: 'dev', app: { size: 'ephemeral-env' } }
+      }
+    };
+    const result = mergeConfig({
+      configFile: overlapping,
+      env: 'ephemeral',
+      region: 'usw2',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/feature-x',
+      component: 'app',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result.size).toBe('ephemeral-env');
+  });
+
+  test('should let the base environment be replaced per target', () => {
+    const result = resolveEphemeral('use1', 'staging');
+
+    expect(result.account).toEqual({ id: '222222222222' });
+    expect(result.network).toEqual({ vpc_cidr: '10.2.0.0/16', nat_gateways: 1 });
+    expect(result.app).toEqual({ replicas: 2 });
+    expect(() => mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      component: 'app',
+      ephemeralBase: 'staging',
+      output: 'json'
+    })).toThrow('You must specify a region. Available regions: us-east-1');
+  });
+
+  test('should ignore the base override for other environments', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', region: 'usw2', ephemeralBase: 'staging', output: 'json' }) as MergedConfig;
+    expect(result.account).toEqual({ id: '111111111111' });
+  });
+
+  test('should report unknown and invalid base environments', () => {
+    expect(() => resolveEphemeral('usw2', 'qa')).toThrow("Environment 'ephemeral' extends unknown environment 'qa'");
+    const invalid: DeploymentConfig = { environments: { ephemeral: { _baseEnvironment: '' } } };
+    expect(() => mergeConfig({ configFile: invalid, env: 'ephemeral', output: 'json' }))
+      .toThrow("Environment 'ephemeral' has an invalid _baseEnvironment value. Expected an environment name");
+  });
+
+  test('should use the base environment in list-environments', () => {
+    const result = checkComponentAvailability(config, 'network');
+    const ephemeral = result.environments.find(env => env.environment === 'ephemeral');
+
+    expect(ephemeral?.envLevel).toEqual({ valid: true, hasConfig: false, target: 'ephemeral' });
+    expect(ephemeral?.regions?.map(region => region.target)).toEqual(['ephemeral-usw2']);
+  });
+
+  test('should accept --ephemeral-base in the CLI', () => {
+    const configFile = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    const output = execSync(
+      `node ${cliPath} resolve --config ${configFile} --env ephemeral --region use1 --component account --ephemeral-branch-prefix ephemeral/ --branch-name ephemeral/feature-x --ephemeral-base staging`,
+      { encoding: 'utf8' }
+    );
+    expect(JSON.parse(output)).toMatchObject({ env_name: 'feature-x', id: '222222222222' });
+  });
+});
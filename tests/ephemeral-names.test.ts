@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig, normalizeEnvironmentName } from '../src/lib/merge-config.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('ephemeral name normalization', () => {
+  const config: DeploymentConfig = {
+    defaults: { app: { bucket: 'app-${env_name}' } },
+    environments: { dev: {}, ephemeral: {} }
+  };
+
+  function resolveBranch(branchName: string, options: { env?: string; ephemeralNameMaxLength?: number } = {}): MergedConfig {
+    return mergeConfig({
+      configFile: config,
+      env: options.env ?? 'ephemeral',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName,
+      normalizeEphemeralName: true,
+      ephemeralNameMaxLength: options.ephemeralNameMaxLength,
+      component: 'app',
+      output: 'json'
+    }) as MergedConfig;
+  }
+
+  test('should normalize names derived from branches and expose the original branch', () => {
+    const result = resolveBranch('ephemeral/JIRA-123/Fix_Login');
+
+    expect(result.env_name).toBe('jira-123-fix_login');
+    expect(result.branch_name).toBe('ephemeral/JIRA-123/Fix_Login');
+    expect(result.bucket).toBe('app-jira-123-fix_login');
+  });
+
+  test('should truncate long names with a deterministic hash suffix', () => {
+    const branch = 'ephemeral/feature/a-very-long-branch-name-for-a-big-change';
+    const result = resolveBranch(branch, { ephemeralNameMaxLength: 20 });
+
+    expect(result.env_name).toMatch(/^feature-a-ver-[0-9a-f]{6}$/);
+    expect(resolveBranch(branch, { ephemeralNameMaxLength: 20 }).env_name).toBe(result.env_name);
+    expect(resolveBranch(`${branch}-2`, { ephemeralNameMaxLength: 20 }).env_name).not.toBe(result.env_name);
+    expect(resolveBranch('ephemeral/short', { ephemeralNameMaxLength: 20 }).env_name).toBe('short');
+  });
+
+  test('should accept the original or the normalized name as env', () => {
+    expect(resolveBranch('ephemeral/Fix/Login', { env: 'fix-login' }).env_name).toBe('fix-login');
+    expect(resolveBranch('ephemeral/Fix/Login', { env: 'Fix/Login' }).env_name).toBe('fix-login');
+  });
+
+  test('should still reject branches without a usable name', () => {
+    expect(() => resolveBranch('ephemeral/--/'))
+      .toThrow("Ephemeral environment branches must follow the format 'ephemeral/<name>' where <name> contains at least one letter or number");
+    expect(() => resolveBranch('ephemeral/x', { ephemeralNameMaxLength: 4 }))
+      .toThrow("Invalid ephemeral name maximum length '4'. Expected an integer of at least 8");
+  });
+
+  test('should leave names unchanged when normalization is not enabled', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'ephemeral', ephemeralBranchPrefix: 'ephemeral/', branchName: 'ephemeral/Fix/Login', output: 'json' }))
+      .toThrow('where <name> contains only lowercase letters, numbers, hyphens, and underscores');
+    const result = mergeConfig({ configFile: config, env: 'dev', branchName: 'ephemeral/x', output: 'json' }) as MergedConfig;
+    expect(result.branch_name).toBeUndefined();
+  });
+
+  test('should reject a maximum length without normalization', () => {
+    expect(() => mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/a-long-feature-branch-name-for-a-change',
+      ephemeralNameMaxLength: 10,
+      output: 'json'
+    })).toThrow('An ephemeral name maximum length requires ephemeral name normalization to be enabled');
+  });
+
+  test('normalizeEnvironmentName', () => {
+    expect(normalizeEnvironmentName('Feature//Big__Change!')).toBe('feature-big__change');
+    expect(normalizeEnvironmentName('abcdefghij-klmnop', 12)).toMatch(/^abcde-[0-9a-f]{6}$/);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkAllComponentsAvailability, checkComponentAvailability } from '../src/lib/component-discovery.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('ephemeral environment overrides', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      database: { instance_class: 'db.t4g.medium', storage_gb: 20 },
+      app: { replicas: 1 }
+    },
+    environments: {
+      dev: { regions: { 'us-west-2': {} } },
+      ephemeral: {
+        database: { instance_class: 'db.t4g.small' },
+        regions: { 'us-west-2': { app: { replicas: 2 } } },
+        overrides: {
+          'perf-*': {
+            database: { instance_class: 'db.r7g.xlarge' },
+            regions: { 'us-west-2': { app: { replicas: 6 } } }
+          },
+          'perf-load': { database: { storage_gb: 500 } },
+          'eu-demo': { regions: { 'eu-west-1': {} } }
+        }
+      }
+    }
+  };
+
+  function resolveBranch(branchName: string, region: string, component?: string): MergedConfig {
+    return mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      region,
+      component,
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName,
+      output: 'json'
+    }) as MergedConfig;
+  }
+
+  test('should merge matching overrides after the ephemeral environment, patterns before exact names', () => {
+    const result = resolveBranch('ephemeral/perf-load', 'usw2');
+
+    expect(result.env_name).toBe('perf-load');
+    expect(result.database).toEqual({ instance_class: 'db.r7g.xlarge', storage_gb: 500 });
+    // Override region blocks are merged after the ephemeral region block
+    expect(result.app).toEqual({ replicas: 6 });
+  });
+
+  test('should leave other ephemeral branches unchanged', () => {
+    const result = resolveBranch('ephemeral/feature-x', 'usw2');
+
+    expect(result.database).toEqual({ instance_class: 'db.t4g.small', storage_gb: 20 });
+    expect(result.app).toEqual({ replicas: 2 });
+  });
+
+  test('should let overrides add regions', () => {
+    expect(resolveBranch('ephemeral/eu-demo', 'euw1', 'database')).toMatchObject({ region: 'eu-west-1', instance_class: 'db.t4g.small' });
+    expect(() => mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      component: 'app',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/eu-demo',
+      output: 'json'
+    })).toThrow("Environment 'ephemeral' has regions defined. You must specify a region. Available regions: us-west-2, eu-west-1");
+  });
+
+  test('should not treat overrides as components', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', region: 'usw2', output: 'json' }) as MergedConfig;
+    expect(result.overrides).toBeUndefined();
+  });
+
+  test('should merge overrides after the region blocks of the base environment', () => {
+    const based: DeploymentConfig = {
+      environments: {
+        dev: { app: { size: 'dev' }, regions: { 'us-west-2': { app: { size: 'dev-usw2' } } } },
+        ephemeral: { _baseEnvironment: 'dev', overrides: { 'perf-*': { app: { size: 'perf' } } } }
+      }
+    };
+    const result = mergeConfig({
+      configFile: based,
+      env: 'ephemeral',
+      region: 'usw2',
+      component: 'app',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/perf-load',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result.size).toBe('perf');
+  });
+
+  test('should keep a component named overrides in other environments', () => {
+    const withComponent: DeploymentConfig = {
+      ...config,
+      environments: { ...config.environments, prod: { overrides: { enabled: true } } }
+    };
+
+    expect(mergeConfig({ configFile: withComponent, env: 'prod', component: 'overrides', output: 'json' }))
+      .toMatchObject({ enabled: true });
+    expect(checkComponentAvailability(withComponent, 'overrides').environments.find(env => env.environment === 'prod')?.available)
+      .toBe(true);
+  });
+
+  test('should show which overrides apply in list-environments output', () => {
+    const database = checkComponentAvailability(config, 'database');
+    expect(database.environments.find(env => env.environment === 'ephemeral')?.overrides).toEqual(['perf-*', 'perf-load']);
+    expect(database.environments.find(env => env.environment === 'dev')?.overrides).toBeUndefined();
+
+    const all = checkAllComponentsAvailability(config);
+    const ephemeral = all.environments.find(env => env.environment === 'ephemeral');
+    expect(ephemeral?.overrides).toEqual(['perf-*', 'perf-load', 'eu-demo']);
+    expect(ephemeral?.components.find(c => c.component === 'app')?.overrides).toEqual(['perf-*']);
+    expect(all.environments[0]?.components.map(c => c.component)).toEqual(['database', 'app']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity } from '../src/lib/component-discovery.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('ephemeral templates', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  const config: DeploymentConfig = {
+    _ephemeral: [
+      { prefix: 'feature/', environment: 'ephemeral' },
+      { prefix: 'perf/', environment: 'perf-ephemeral' },
+      { prefix: 'release/', environment: 'staging-preview' }
+    ],
+    defaults: {
+      app: { replicas: 1, size: { $if: { is_ephemeral: true }, then: 'small', else: 'large' } }
+    },
+    environments: {
+      prod: {},
+      ephemeral: {},
+      'perf-ephemeral': { app: { replicas: 4 } },
+      'staging-preview': { app: { replicas: 2 } }
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ephemeral-templates-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function resolveBranch(branchName: string, env?: string): MergedConfig {
+    return mergeConfig({ configFile: config, env, branchName, component: 'app', output: 'json' }) as MergedConfig;
+  }
+
+  test('should select the environment config by branch prefix', () => {
+    expect(resolveBranch('feature/login')).toMatchObject({ env_name: 'login', env_config_name: 'ephemeral', is_ephemeral: true, replicas: 1 });
+    expect(resolveBranch('perf/load-test')).toMatchObject({ env_name: 'load-test', env_config_name: 'perf-ephemeral', replicas: 4, size: 'small' });
+    expect(resolveBranch('release/v2')).toMatchObject({ env_name: 'v2', env_config_name: 'staging-preview', replicas: 2 });
+  });
+
+  test('should accept an env matching the branch or its template', () => {
+    expect(resolveBranch('perf/load-test', 'load-test').env_config_name).toBe('perf-ephemeral');
+    expect(resolveBranch('perf/load-test', 'perf-ephemeral').env_name).toBe('load-test');
+    expect(() => resolveBranch('perf/load-test', 'ephemeral'))
+      .toThrow("Branch 'perf/load-test' maps to ephemeral environment 'perf-ephemeral', not 'ephemeral'");
+    expect(() => resolveBranch('perf/load-test', 'other'))
+      .toThrow("Ephemeral environment name 'other' does not match the branch name 'perf/load-test'");
+  });
+
+  test('should resolve regular environments directly, and reject unknown branches', () => {
+    expect(resolveBranch('main', 'prod')).toMatchObject({ env_name: 'prod', is_ephemeral: false, size: 'large' });
+    expect(() => resolveBranch('main'))
+      .toThrow("Ephemeral environment branches must follow the format 'feature/<name>' or 'perf/<name>' or 'release/<name>'");
+  });
+
+  test('should take precedence over the ephemeral branch prefix option', () => {
+    const result = mergeConfig({
+      configFile: config,
+      env: 'perf-ephemeral',
+      branchName: 'perf/load-test',
+      ephemeralBranchPrefix: 'ephemeral/',
+      output: 'json'
+    }) as MergedConfig;
+    expect(result.env_name).toBe('load-test');
+    expect(() => mergeConfig({ configFile: config, branchName: 'ephemeral/x', ephemeralBranchPrefix: 'ephemeral/', output: 'json' }))
+      .toThrow('Ephemeral environment branches must follow the format');
+  });
+
+  test('should validate the templates', () => {
+    expect(() => mergeConfig({ configFile: { ...config, _ephemeral: [{ prefix: 'x/', environment: 'missing' }] }, branchName: 'x/y', output: 'json' }))
+      .toThrow("Ephemeral template for prefix 'x/' refers to unknown environment 'missing'");
+    expect(() => mergeConfig({ configFile: { ...config, _ephemeral: [{ prefix: '', environment: 'ephemeral' }] }, branchName: 'x/y', output: 'json' }))
+      .toThrow('Invalid _ephemeral entry at index 0');
+  });
+
+  test('should treat template environments as ephemeral in checkComponentValidity', () => {
+    const withNull: DeploymentConfig = {
+      ...config,
+      defaults: { app: { domain: { $if: { is_ephemeral: true }, then: 'preview.example.com', else: null } } }
+    };
+    expect(checkComponentValidity(withNull, withNull.environments!, 'perf-ephemeral', null, 'app')).toEqual({ valid: true, hasConfig: true });
+    expect(checkComponentValidity(withNull, withNull.environments!, 'prod', null, 'app')).toEqual({ valid: false, reason: 'null_value_at_domain' });
+  });
+
+  test('should resolve from the branch name alone in the CLI', () => {
+    const configFile = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    const output = execSync(`node ${cliPath} resolve --config ${configFile} --branch-name perf/load-test --component app`, { encoding: 'utf8' });
+    expect(JSON.parse(output)).toMatchObject({ env_name: 'load-test', env_config_name: 'perf-ephemeral', replicas: 4 });
+  });
+});
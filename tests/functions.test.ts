@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { interpolateConfig } from '../src/lib/interpolation.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('$fn computed values', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      network: {
+        vpc_cidr: null,
+        public_subnets: [
+          { $fn: 'cidrsubnet', args: ['${network.vpc_cidr}', 8, 0] },
+          { $fn: 'cidrsubnet', args: ['${network.vpc_cidr}', 8, 1] }
+        ],
+        private_subnet: { $fn: 'cidrsubnet', args: [{ $ref: 'network.vpc_cidr' }, 4, 15] },
+        gateway: { $fn: 'cidrhost', args: ['${network.vpc_cidr}', 1] },
+        availability_zones: { $fn: 'azs', count: 3 },
+        name: { $fn: 'upper', args: ['${env_name}-${region_short}'] }
+      }
+    },
+    environments: {
+      dev: {
+        regions: {
+          'us-west-2': { network: { vpc_cidr: '10.1.0.0/16' } }
+        }
+      }
+    }
+  };
+
+  test('should evaluate built-in functions after merging', () => {
+    const result = mergeConfig({ configFile: config, target: 'dev-usw2', component: 'network', output: 'json' }) as MergedConfig;
+
+    expect(result.public_subnets).toEqual(['10.1.0.0/24', '10.1.1.0/24']);
+    expect(result.private_subnet).toBe('10.1.240.0/20');
+    expect(result.gateway).toBe('10.1.0.1');
+    expect(result.availability_zones).toEqual(['us-west-2a', 'us-west-2b', 'us-west-2c']);
+    expect(result.name).toBe('DEV-USW2');
+  });
+
+  test('should support join, lower and negative host numbers', () => {
+    const result = interpolateConfig({
+      zones: { $fn: 'join', args: [',', ['a', 'b']] },
+      name: { $fn: 'lower', args: ['ABC'] },
+      broadcast: { $fn: 'cidrhost', args: ['10.0.1.0/24', -1] }
+    }, {});
+    expect(result).toEqual({ zones: 'a,b', name: 'abc', broadcast: '10.0.1.255' });
+  });
+
+  test('should accept custom functions', () => {
+    const result = mergeConfig({
+      configFile: {
+        defaults: { app: { bucket: { $fn: 'bucketName', args: ['logs'], suffix: '${region_short}' } } },
+        environments: { dev: { regions: { 'us-east-1': {} } } }
+      },
+      target: 'dev-use1',
+      component: 'app',
+      output: 'json',
+      functions: {
+        bucketName: ([prefix], { params, target }) => `${String(prefix)}-${String(target.env_name)}-${String(params.suffix)}`
+      }
+    }) as MergedConfig;
+
+    expect(result.bucket).toBe('logs-dev-use1');
+  });
+
+  test('should build zone names for the provider of the target', () => {
+    const multiCloud: DeploymentConfig = {
+      defaults: { network: { availability_zones: { $fn: 'azs', count: 3 } } },
+      environments: {
+        'gcp-dev': { _provider: 'gcp', regions: { 'us-central1': {} } },
+        'azure-dev': { _provider: 'azure', regions: { westeurope: {} } }
+      }
+    };
+    const resolve = (target: string) => mergeConfig({ configFile: multiCloud, target, component: 'network', output: 'json' }) as MergedConfig;
+
+    expect(resolve('gcp-dev-usc1').availability_zones).toEqual(['us-central1-a', 'us-central1-b', 'us-central1-c']);
+    expect(resolve('azure-dev-weu').availability_zones).toEqual(['1', '2', '3']);
+    expect(() => interpolateConfig({ a: { $fn: 'azs', count: 4 } }, { region: 'westeurope' }, { provider: 'azure' }))
+      .toThrow("Function 'azs' at path: a failed: count must be between 1 and 3, got 4");
+  });
+
+  test('should report unknown functions and invalid arguments', () => {
+    expect(() => interpolateConfig({ a: { $fn: 'exec', args: ['rm -rf /'] } }, {}))
+      .toThrow("Unknown function 'exec' at path: a. Available functions: cidrsubnet, cidrhost, azs, join, upper, lower");
+    expect(() => interpolateConfig({ a: { $fn: 'cidrsubnet', args: ['10.0.0.0/30', 4, 0] } }, {}))
+      .toThrow("Function 'cidrsubnet' at path: a failed: Cannot extend prefix /30 by 4 bits");
+    expect(() => interpolateConfig({ a: { $fn: 'cidrhost', args: ['10.0.0.300/24', 1] } }, {}))
+      .toThrow("Invalid IPv4 CIDR '10.0.0.300/24'");
+    expect(() => interpolateConfig({ a: { $fn: 'azs', count: 2 } }, { region: '' }))
+      .toThrow('azs requires a region');
+  });
+});
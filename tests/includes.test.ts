@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { loadConfigFile } from '../src/lib/config-loader.js';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import type { ComponentEnvironmentsResult, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('config file includes', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'includes-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeFile(relativePath: string, content: string): string {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+    return filePath;
+  }
+
+  function writeSplitConfig(): string {
+    writeFile('components/api.json5', `{ defaults: { api: { replicas: 1, domain: null } } }`);
+    writeFile('components/web.json5', `{ defaults: { web: { replicas: 2 } } }`);
+    writeFile('envs/prod.json5', `{
+      // included into the environments object
+      prod: {
+        api: { domain: 'example.com' },
+        regions: { 'us-west-2': {} }
+      }
+    }`);
+    return writeFile('config.json5', `{
+      _include: ['./components/*.json5'],
+      environments: {
+        _include: './envs/prod.json5',
+        dev: { api: { domain: 'dev.example.com' } }
+      }
+    }`);
+  }
+
+  test('should merge included files at any level, relative to the including file', () => {
+    const config = loadConfigFile(writeSplitConfig());
+
+    expect(config.defaults).toEqual({ api: { replicas: 1, domain: null }, web: { replicas: 2 } });
+    expect(Object.keys(config.environments!)).toEqual(['prod', 'dev']);
+    expect(config.environments!.prod!.regions).toEqual({ 'us-west-2': {} });
+  });
+
+  test('should let local keys override included values', () => {
+    writeFile('base.json5', `{ defaults: { api: { replicas: 1, tags: ['a'] } } }`);
+    const configFile = writeFile('config.json5', `{
+      _include: './base.json5',
+      defaults: { api: { tags: ['b'], extra: { $unset: true } } }
+    }`);
+
+    expect(loadConfigFile(configFile).defaults).toEqual({ api: { replicas: 1, tags: ['b'], extra: { $unset: true } } });
+  });
+
+  test('should resolve nested includes relative to each file', () => {
+    writeFile('shared/common.json5', `{ _include: './nested/region.json5', replicas: 3 }`);
+    writeFile('shared/nested/region.json5', `{ zone: 'a' }`);
+    const configFile = writeFile('config.json5', `{ defaults: { api: { _include: './shared/common.json5' } } }`);
+
+    expect(loadConfigFile(configFile).defaults).toEqual({ api: { zone: 'a', replicas: 3 } });
+  });
+
+  test('should detect include cycles', () => {
+    writeFile('a.json5', `{ _include: './b.json5' }`);
+    writeFile('b.json5', `{ _include: './a.json5' }`);
+    const configFile = writeFile('config.json5', `{ _include: './a.json5' }`);
+
+    expect(() => loadConfigFile(configFile)).toThrow(
+      `Include cycle detected: ${path.join(tempDir, 'a.json5')} -> ${path.join(tempDir, 'b.json5')} -> ${path.join(tempDir, 'a.json5')}`
+    );
+  });
+
+  test('should report the file that failed to load', () => {
+    writeFile('broken.json5', `{ defaults: { `);
+    const configFile = writeFile('config.json5', `{ _include: './broken.json5' }`);
+
+    expect(() => loadConfigFile(configFile)).toThrow(
+      `Failed to load config file '${path.join(tempDir, 'broken.json5')}' (included from '${configFile}')`
+    );
+    expect(() => loadConfigFile(writeFile('missing.json5', `{ _include: './nope.json5' }`))).toThrow(
+      `Failed to load config file '${path.join(tempDir, 'nope.json5')}'`
+    );
+    expect(() => loadConfigFile(writeFile('empty-glob.json5', `{ _include: './none/*.json5' }`))).toThrow(
+      "Include pattern './none/*.json5'"
+    );
+  });
+
+  test('should apply includes when merging from a file path', () => {
+    const result = mergeConfig({
+      configFile: writeSplitConfig(),
+      env: 'prod',
+      region: 'usw2',
+      component: 'api',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result.replicas).toBe(1);
+    expect(result.domain).toBe('example.com');
+  });
+
+  test('should apply includes in the list-environments command', () => {
+    const configFile = writeSplitConfig();
+    const result = JSON.parse(
+      execSync(`node ${cliPath} list-environments --config "${configFile}" --component api`, { encoding: 'utf8' })
+    ) as ComponentEnvironmentsResult;
+
+    expect(result.environments.map(e => [e.environment, e.available])).toEqual([['prod', true], ['dev', true]]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { interpolateConfig } from '../src/lib/interpolation.js';
+import type { DeploymentConfig, FlattenedConfig, MergedConfig } from '../src/types/index.js';
+
+describe('string interpolation', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      app: {
+        bucket: 'app-${env_name}-${region_short}',
+        log_group: '/app/${app.name}',
+        name: '${env_name}-service',
+        replicas: 2,
+        desired: '${app.replicas}',
+        literal: 'keep $${env_name} as-is'
+      },
+      network: {
+        vpc_cidr: '10.0.0.0/16'
+      }
+    },
+    environments: {
+      dev: {
+        regions: {
+          'us-west-2': {
+            app: { vpc: '${network.vpc_cidr}' }
+          }
+        }
+      },
+      ephemeral: {
+        regions: {
+          'us-west-2': {}
+        }
+      }
+    }
+  };
+
+  test('should fill placeholders from target metadata and other config keys', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', region: 'usw2', output: 'json' }) as MergedConfig;
+    expect(result.app).toEqual({
+      bucket: 'app-dev-usw2',
+      log_group: '/app/dev-service',
+      name: 'dev-service',
+      replicas: 2,
+      desired: 2,
+      literal: 'keep ${env_name} as-is',
+      vpc: '10.0.0.0/16'
+    });
+  });
+
+  test('should use the branch-derived name for ephemeral environments', () => {
+    const result = mergeConfig({
+      configFile: config,
+      env: 'ephemeral',
+      region: 'usw2',
+      output: 'flatten',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/feature-x'
+    }) as FlattenedConfig;
+    expect(result['app.bucket']).toBe('app-feature-x-usw2');
+  });
+
+  test('should resolve placeholders in hoisted components against the full config paths', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', region: 'usw2', output: 'json', component: 'app' }) as MergedConfig;
+    expect(result.log_group).toBe('/app/dev-service');
+    expect(result.bucket).toBe('app-dev-usw2');
+  });
+
+  test('should report the path of unresolvable placeholders', () => {
+    expect(() => interpolateConfig({ app: { url: 'https://${app.host}' } }, {}))
+      .toThrow("Unresolvable placeholder '${app.host}' at path: app.url");
+  });
+
+  test('should detect reference cycles', () => {
+    const cyclic = { a: { x: '${a.y}', y: 'pre-${a.x}' } };
+    expect(() => interpolateConfig(cyclic, cyclic)).toThrow('Circular reference at path: a.x (a.y -> a.x -> a.y)');
+  });
+
+  test('should not embed objects in strings', () => {
+    const value = { a: { nested: { b: 1 } }, c: 'value: ${a.nested}' };
+    expect(() => interpolateConfig(value, value))
+      .toThrow("Placeholder '${a.nested}' at path: c resolves to a non-scalar value and cannot be embedded in a string");
+  });
+
+  test('should index into arrays', () => {
+    const value = { zones: ['a', 'b'], first: '${zones.1}' };
+    expect(interpolateConfig(value, value).first).toBe('b');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { findMetadataKeyProblems, findOverlayMetadataKeyProblems, validateMetadataKeys } from '../src/lib/metadata.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('metadata key validation', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  const config: DeploymentConfig = {
+    _ephemeral: [{ prefix: 'feature/', environment: 'ephemeral' }],
+    defaults: {
+      base_app: { _abstract: true, replicas: 1 },
+      app: {
+        _extends: 'base_app',
+        _regionAgnostic: true,
+        tags: { _arrayMerge: 'append', _replace: true, team: 'platform' },
+        hosts: [{ _when: { region: 'us-west-2' }, name: 'west' }]
+      }
+    },
+    environments: {
+      dev: {},
+      ephemeral: { _baseEnvironment: 'dev' }
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-keys-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should accept registered keys where they are allowed', () => {
+    expect(findMetadataKeyProblems(config)).toEqual([]);
+  });
+
+  test('should reject unknown keys with a suggestion', () => {
+    const typo: DeploymentConfig = { defaults: { app: { _regionAgnostc: true, replicas: 1 } }, environments: { dev: {} } };
+
+    expect(() => mergeConfig({ configFile: typo, env: 'dev', output: 'json' }))
+      .toThrow("Unknown metadata key '_regionAgnostc' at path: defaults.app._regionAgnostc. Did you mean '_regionAgnostic'?");
+    expect(findMetadataKeyProblems({ defaults: { app: { _owner: 'me' } } })[0])
+      .toBe("Unknown metadata key '_owner' at path: defaults.app._owner. Known keys: _regionAgnostic, _arrayMerge, _replace, _extends, _abstract, _when, _baseEnvironment, _provider, _ephemeral, _regions");
+  });
+
+  test('should reject keys in the wrong location or with the wrong type', () => {
+    expect(findMetadataKeyProblems({
+      _regionAgnostic: true,
+      environments: {
+        dev: {
+          _abstract: true,
+          regions: { 'us-west-2': { _baseEnvironment: 'prod' } },
+          app: { _replace: 'yes', settings: { _extends: 'other' } }
+        }
+      }
+    } as DeploymentConfig)).toEqual([
+      "Metadata key '_regionAgnostic' is not allowed in the config root at path: _regionAgnostic. It can be used in: component",
+      "Metadata key '_abstract' is not allowed in an environment at path: environments.dev._abstract. It can be used in: component",
+      "Metadata key '_replace' at path: environments.dev.app._replace must be of type 'boolean'",
+      "Metadata key '_extends' is not allowed in a nested value at path: environments.dev.app.settings._extends. It can be used in: component, environment",
+      "Metadata key '_baseEnvironment' is not allowed in a region at path: environments.dev.regions.us-west-2._baseEnvironment. It can be used in: environment"
+    ]);
+  });
+
+  test('should report problems as warnings in lenient mode', () => {
+    const typo: DeploymentConfig = { defaults: { app: { _owner: 'me', replicas: 1 } }, environments: { dev: {} } };
+    const warnings: string[] = [];
+
+    const result = mergeConfig({
+      configFile: typo,
+      env: 'dev',
+      component: 'app',
+      metadataValidation: 'lenient',
+      onWarning: message => warnings.push(message),
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result).toMatchObject({ replicas: 1 });
+    expect(result._owner).toBeUndefined();
+    expect(warnings).toEqual([expect.stringContaining("Unknown metadata key '_owner'")]);
+    expect(() => validateMetadataKeys(typo)).toThrow("Unknown metadata key '_owner'");
+  });
+
+  test('should validate the keys of overlays', () => {
+    const base: DeploymentConfig = { defaults: { app: { replicas: 1 } }, environments: { dev: {} } };
+    const overlays = [{ app: { _regionAgnostc: true, tags: { _replace: 'yes' } } }];
+
+    expect(() => mergeConfig({ configFile: base, env: 'dev', overlays, output: 'json' }))
+      .toThrow("Unknown metadata key '_regionAgnostc' at path: overlays.0.app._regionAgnostc. Did you mean '_regionAgnostic'?");
+    expect(findOverlayMetadataKeyProblems({ _extends: 'x', app: { _replace: true } }, 'overlays.0')).toEqual([
+      "Metadata key '_extends' is not allowed in an overlay at path: overlays.0._extends. It can be used in: component, environment"
+    ]);
+
+    const warnings: string[] = [];
+    mergeConfig({ configFile: base, env: 'dev', overlays, metadataValidation: 'lenient', onWarning: message => warnings.push(message), output: 'json' });
+    expect(warnings).toEqual([
+      expect.stringContaining("Unknown metadata key '_regionAgnostc'"),
+      "Metadata key '_replace' at path: overlays.0.app.tags._replace must be of type 'boolean'"
+    ]);
+  });
+
+  test('should validate keys in the CLI', () => {
+    const configFile = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify({ defaults: { app: { _regionAgnostc: true, replicas: 1 } }, environments: { dev: {} } }));
+
+    const strict = spawnSync('node', [cliPath, 'list-environments', '--config', configFile], { encoding: 'utf8' });
+    expect(strict.status).not.toBe(0);
+    expect(strict.stderr).toContain("Did you mean '_regionAgnostic'?");
+
+    const lenient = spawnSync('node', [cliPath, 'resolve', '--config', configFile, '--env', 'dev', '--component', 'app', '--metadata-validation', 'lenient'], { encoding: 'utf8' });
+    expect(lenient.status).toBe(0);
+    expect(JSON.parse(lenient.stdout)).toMatchObject({ replicas: 1 });
+    expect(lenient.stderr).toContain("Warning: Unknown metadata key '_regionAgnostc'");
+  });
+});
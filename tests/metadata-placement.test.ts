@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import path from 'node:path';
+import { execSync, spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { explainConfig, mergeConfig } from '../src/lib/merge-config.js';
+import type { DeploymentConfig, FlattenedConfig, MergeConfigOptions, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('metadata placement', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+
+  const config: DeploymentConfig = {
+    defaults: {
+      tfState: { bucketName: 'tf-state-bucket', region: 'us-west-2' },
+      app: { bucket: 'app-${env_name}-${region_short}' }
+    },
+    environments: {
+      dev: { regions: { 'us-west-2': {}, 'us-east-1': {} } }
+    }
+  };
+
+  function resolve(options: Partial<MergeConfigOptions> = {}): MergedConfig {
+    return mergeConfig({ configFile: config, target: 'dev-use1', component: 'tfState', output: 'json', ...options }) as MergedConfig;
+  }
+
+  test('should warn about metadata that overwrites a config value', () => {
+    const warnings: string[] = [];
+    const result = resolve({ onWarning: message => warnings.push(message) });
+    expect(result.region).toBe('us-east-1');
+    expect(warnings).toEqual(["Metadata field 'region' overwrites the 'region' value of the resolved config for target 'dev-us-east-1'. Place the metadata under _meta or with a prefix to keep both"]);
+
+    expect(() => resolve({ metadataValidation: 'strict' }))
+      .toThrow("Metadata field 'region' overwrites the 'region' value of the resolved config");
+  });
+
+  test('should keep resolving overwritten metadata in the CLI by default', () => {
+    const configFile = path.join(__dirname, '..', 'test-cfg.json5');
+    const result = spawnSync('node', [cliPath, 'resolve', '--config', configFile, '--target', 'prod-use1', '--component', 'tfState'], { encoding: 'utf8' });
+
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toMatchObject({ region: 'us-east-1' });
+    expect(result.stderr).toContain("Warning: Metadata field 'region' overwrites");
+  });
+
+  test('should not report metadata with the same value as the config', () => {
+    expect(resolve({ target: 'dev-usw2' })).toMatchObject({ region: 'us-west-2', bucketName: 'tf-state-bucket' });
+  });
+
+  test('should place metadata under _meta', () => {
+    const result = resolve({ metadataPlacement: 'meta' });
+
+    expect(result.region).toBe('us-west-2');
+    expect(result._meta).toEqual({ env_name: 'dev', env_config_name: 'dev', region: 'us-east-1', region_short: 'use1', is_ephemeral: false });
+    expect(result.env_name).toBeUndefined();
+
+    const flat = resolve({ metadataPlacement: 'meta', output: 'flatten' }) as unknown as FlattenedConfig;
+    expect(flat['_meta.region']).toBe('us-east-1');
+    expect(flat.region).toBe('us-west-2');
+  });
+
+  test('should prefix metadata field names', () => {
+    const result = resolve({ metadataPlacement: 'prefix', metadataPrefix: 'udc_' });
+
+    expect(result).toMatchObject({ region: 'us-west-2', udc_region: 'us-east-1', udc_env_name: 'dev', udc_is_ephemeral: false });
+    expect(() => resolve({ metadataPlacement: 'prefix' }))
+      .toThrow("Metadata placement 'prefix' requires a metadata prefix (e.g. 'udc_')");
+  });
+
+  test('should keep metadata placeholders working with any placement', () => {
+    const result = resolve({ component: 'app', metadataPlacement: 'meta' });
+    expect(result.bucket).toBe('app-dev-use1');
+  });
+
+  test('should trace placed metadata to the metadata layer', () => {
+    const { provenance } = explainConfig({ configFile: config, target: 'dev-use1', component: 'tfState', metadataPlacement: 'meta' });
+
+    expect(provenance.find(entry => entry.path === 'region')?.source?.layer).toBe('defaults');
+    expect(provenance.find(entry => entry.path === '_meta.region')?.source).toEqual({ layer: 'metadata', layerPath: '_meta.region', value: 'us-east-1' });
+  });
+
+  test('should accept --metadata-placement in the CLI', () => {
+    const configFile = path.join(__dirname, '..', 'test-cfg.json5');
+    const output = execSync(
+      `node ${cliPath} resolve --config "${configFile}" --target dev-usw2 --component tfState --metadata-placement prefix --metadata-prefix udc_`,
+      { encoding: 'utf8' }
+    );
+    expect(JSON.parse(output)).toMatchObject({ region: 'us-west-2', udc_env_name: 'dev', udc_region_short: 'usw2' });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('overlays', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  const config: DeploymentConfig = {
+    defaults: {
+      app: { image_tag: null, replicas: 1, log_level: 'info' }
+    },
+    environments: {
+      dev: {
+        app: { image_tag: 'latest' },
+        regions: {
+          'us-west-2': { app: { replicas: 2 } }
+        }
+      }
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'overlays-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeFile(name: string, content: object): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, JSON.stringify(content), 'utf8');
+    return filePath;
+  }
+
+  test('should apply overlays after the region layer, in order', () => {
+    const result = mergeConfig({
+      configFile: config,
+      env: 'dev',
+      region: 'usw2',
+      component: 'app',
+      output: 'json',
+      overlays: [
+        { app: { replicas: 5, log_level: 'debug' } },
+        { app: { image_tag: 'sha-1234' } }
+      ]
+    }) as MergedConfig;
+
+    expect(result.replicas).toBe(5);
+    expect(result.log_level).toBe('debug');
+    expect(result.image_tag).toBe('sha-1234');
+  });
+
+  test('should load overlay files', () => {
+    const overlay = writeFile('local.json5', { app: { replicas: 9 }, debug: true });
+
+    const result = mergeConfig({
+      configFile: config,
+      env: 'dev',
+      region: 'usw2',
+      output: 'json',
+      overlays: [overlay]
+    }) as MergedConfig;
+
+    expect(result.app).toEqual({ image_tag: 'latest', replicas: 9, log_level: 'info' });
+    expect(result.debug).toBe(true);
+  });
+
+  test('should validate null values introduced by overlays', () => {
+    expect(() => mergeConfig({
+      configFile: config,
+      env: 'dev',
+      region: 'usw2',
+      component: 'app',
+      output: 'json',
+      overlays: [{ app: { image_tag: null } }]
+    })).toThrow('Configuration contains null value at path: image_tag');
+  });
+
+  test('should accept repeatable --overlay options in the CLI', () => {
+    const configFile = writeFile('config.json5', config);
+    const local = writeFile('local.json5', { app: { log_level: 'debug' } });
+    const ci = writeFile('ci.json', { app: { image_tag: 'sha-5678' } });
+
+    const result = JSON.parse(execSync(
+      `node ${cliPath} resolve --config "${configFile}" --target dev-usw2 --component app --overlay "${local}" --overlay "${ci}"`,
+      { encoding: 'utf8' }
+    )) as MergedConfig;
+
+    expect(result.log_level).toBe('debug');
+    expect(result.image_tag).toBe('sha-5678');
+    expect(result.replicas).toBe(2);
+  });
+
+  test('should report a missing overlay file', () => {
+    expect(() => mergeConfig({
+      configFile: config,
+      env: 'dev',
+      region: 'usw2',
+      output: 'json',
+      overlays: [path.join(tempDir, 'missing.json5')]
+    })).toThrow(`Failed to load config file '${path.join(tempDir, 'missing.json5')}'`);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { explainConfig, mergeConfig } from '../src/lib/merge-config.js';
+import type { DeploymentConfig, ProvenanceEntry } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('value provenance', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  const config: DeploymentConfig = {
+    defaults: {
+      log_level: 'info',
+      network: { vpc_cidr: null, nat_gateways: 1 },
+      base_service: { _abstract: true, memory: 512, port: 8080 },
+      api: { _extends: 'base_service', domain: 'api.${env_name}.example.com' }
+    },
+    environments: {
+      dev: {
+        network: { vpc_cidr: '10.0.0.0/16' },
+        regions: {
+          'us-west-2': { network: { vpc_cidr: '10.1.0.0/16' }, api: { memory: 1024 } }
+        }
+      }
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provenance-test-'));
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function findEntry(entries: ProvenanceEntry[], entryPath: string): ProvenanceEntry | undefined {
+    return entries.find(entry => entry.path === entryPath);
+  }
+
+  test('should report the layer that set each value and the values it overrode', () => {
+    const { config: result, provenance } = explainConfig({ configFile: config, target: 'dev-usw2' });
+
+    expect(result.network).toEqual({ vpc_cidr: '10.1.0.0/16', nat_gateways: 1 });
+    expect(findEntry(provenance, 'network.vpc_cidr')).toEqual({
+      path: 'network.vpc_cidr',
+      value: '10.1.0.0/16',
+      source: { layer: 'environments.dev.regions.us-west-2', layerPath: 'network.vpc_cidr', value: '10.1.0.0/16' },
+      overrides: [
+        { layer: 'defaults', layerPath: 'network.vpc_cidr', value: null },
+        { layer: 'environments.dev', layerPath: 'network.vpc_cidr', value: '10.0.0.0/16' }
+      ]
+    });
+    expect(findEntry(provenance, 'log_level')?.source).toEqual({ layer: 'defaults', layerPath: 'log_level', value: 'info' });
+    expect(findEntry(provenance, 'region')?.source).toEqual({ layer: 'metadata', layerPath: 'region', value: 'us-west-2' });
+  });
+
+  test('should trace templated and hoisted component values to their layer paths', () => {
+    const { provenance } = explainConfig({ configFile: config, target: 'dev-usw2', component: 'api' });
+
+    expect(findEntry(provenance, 'port')?.source).toEqual({ layer: 'defaults', layerPath: 'base_service.port', value: 8080 });
+    expect(findEntry(provenance, 'memory')).toMatchObject({
+      value: 1024,
+      source: { layer: 'environments.dev.regions.us-west-2', layerPath: 'api.memory' },
+      overrides: [{ layer: 'defaults', layerPath: 'base_service.memory', value: 512 }]
+    });
+    // The source holds the value as written, before interpolation
+    expect(findEntry(provenance, 'domain')).toMatchObject({
+      value: 'api.dev.example.com',
+      source: { layer: 'defaults', value: 'api.${env_name}.example.com' }
+    });
+  });
+
+  test('should report overlays and the files values were loaded from', () => {
+    fs.mkdirSync(path.join(tempDir, 'network'));
+    fs.writeFileSync(path.join(tempDir, 'network', 'dev.json5'), `{ vpc_cidr: '10.0.0.0/16' }`);
+    const configFile = path.join(tempDir, 'config.json5');
+    fs.writeFileSync(configFile, `{
+      defaults: { network: { vpc_cidr: null, nat_gateways: 1 } },
+      environments: { dev: { network: { _include: './network/dev.json5' } } }
+    }`);
+
+    let provenance: ProvenanceEntry[] = [];
+    mergeConfig({
+      configFile,
+      env: 'dev',
+      output: 'json',
+      overlays: [{ network: { nat_gateways: 3 } }],
+      onProvenance: entries => { provenance = entries; }
+    });
+
+    expect(findEntry(provenance, 'network.vpc_cidr')?.source).toEqual({
+      layer: 'environments.dev',
+      layerPath: 'network.vpc_cidr',
+      value: '10.0.0.0/16',
+      file: path.join(tempDir, 'network', 'dev.json5')
+    });
+    expect(findEntry(provenance, 'network.nat_gateways')).toMatchObject({
+      source: { layer: 'overlays.0', layerPath: 'network.nat_gateways', value: 3 },
+      overrides: [{ layer: 'defaults', file: configFile }]
+    });
+  });
+
+  test('should forget values discarded by _replace and $unset', () => {
+    const { provenance } = explainConfig({
+      configFile: {
+        defaults: { app: { tags: { team: 'a', cost: 'x' }, debug: true } },
+        environments: { prod: { app: { tags: { _replace: true, team: 'b' }, debug: { $unset: true } } } }
+      },
+      env: 'prod',
+      component: 'app'
+    });
+
+    expect(provenance.map(entry => entry.path).sort()).toEqual(['env_config_name', 'env_name', 'is_ephemeral', 'region', 'region_short', 'tags.team']);
+    expect(findEntry(provenance, 'tags.team')?.overrides).toEqual([]);
+  });
+
+  test('should explain a path from the CLI in text and JSON', () => {
+    const configFile = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+
+    const text = execSync(`node ${cliPath} explain --config ${configFile} --target dev-usw2 --path network.vpc_cidr`, { encoding: 'utf8' });
+    expect(text).toBe([
+      'network.vpc_cidr = "10.1.0.0/16"',
+      `  set by environments.dev.regions.us-west-2 (network.vpc_cidr) [${configFile}]`,
+      `  overrides environments.dev (network.vpc_cidr) [${configFile}]: "10.0.0.0/16"`,
+      `  overrides defaults (network.vpc_cidr) [${configFile}]: null`,
+      ''
+    ].join('\n'));
+
+    const json = JSON.parse(execSync(`node ${cliPath} explain --config ${configFile} --target dev-usw2 --path network --output json`, { encoding: 'utf8' })) as ProvenanceEntry[];
+    expect(json.map(entry => entry.path)).toEqual(['network.vpc_cidr', 'network.nat_gateways']);
+
+    expect(() => execSync(`node ${cliPath} explain --config ${configFile} --target dev-usw2 --path network.missing`, { stdio: 'pipe' }))
+      .toThrow('No resolved value at path: network.missing');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity } from '../src/lib/component-discovery.js';
+import { deepMerge } from '../src/lib/utils.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('cross-component $ref values', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      network: {
+        vpc_cidr: null,
+        subnets: ['10.0.1.0/24', '10.0.2.0/24']
+      },
+      tfState: {
+        bucketName: 'tf-state-${env_name}'
+      },
+      app: {
+        vpc_cidr: { $ref: 'network.vpc_cidr' },
+        state_bucket: { $ref: 'tfState.bucketName' },
+        subnets: { $ref: 'network.subnets' }
+      }
+    },
+    environments: {
+      dev: {
+        network: { vpc_cidr: '10.0.0.0/16' }
+      },
+      prod: {}
+    }
+  };
+
+  test('should resolve references against the merged target config', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', output: 'json' }) as MergedConfig;
+    expect(result.app).toEqual({
+      vpc_cidr: '10.0.0.0/16',
+      state_bucket: 'tf-state-dev',
+      subnets: ['10.0.1.0/24', '10.0.2.0/24']
+    });
+  });
+
+  test('should resolve references in hoist mode', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', output: 'json', component: 'app' }) as MergedConfig;
+    expect(result.vpc_cidr).toBe('10.0.0.0/16');
+    expect(result.state_bucket).toBe('tf-state-dev');
+    expect(result.network).toBeUndefined();
+  });
+
+  test('should filter out components whose references point at null values', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', output: 'json' }) as MergedConfig;
+    expect(result.app).toBeUndefined();
+    expect(result.tfState).toBeDefined();
+  });
+
+  test('should throw for a requested component with a broken reference', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'prod', output: 'json', component: 'app', hoist: false }))
+      .toThrow("Component 'app' has a $ref at path: app.vpc_cidr that points at a missing or null value for target 'prod'");
+    expect(() => mergeConfig({ configFile: config, env: 'prod', output: 'json', component: 'app' }))
+      .toThrow("Unresolvable $ref 'network.vpc_cidr' at path: vpc_cidr (referenced value is null)");
+  });
+
+  test('should mark components with broken references invalid', () => {
+    const refConfig: DeploymentConfig = {
+      defaults: {
+        app: { queue: { $ref: 'queue.url' } }
+      },
+      environments: {
+        dev: { queue: { url: 'https://queue' } },
+        prod: {},
+        staging: { queue: { url: null } }
+      }
+    };
+    const envSource = refConfig.environments!;
+    expect(checkComponentValidity(refConfig, envSource, 'dev', null, 'app')).toEqual({ valid: true, hasConfig: false });
+    expect(checkComponentValidity(refConfig, envSource, 'prod', null, 'app')).toEqual({ valid: false, reason: 'missing_reference_at_queue' });
+    expect(checkComponentValidity(refConfig, envSource, 'staging', null, 'app')).toEqual({ valid: false, reason: 'null_reference_at_queue' });
+  });
+
+  test('should treat references as atomic values when merging', () => {
+    const result = deepMerge({ value: { a: 1 } }, { value: { $ref: 'other.value' } });
+    expect(result.value).toEqual({ $ref: 'other.value' });
+    expect(deepMerge({ value: { $ref: 'other.value' } }, { value: { a: 1 } }).value).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentAvailability } from '../src/lib/component-discovery.js';
+import { getRegionFullName, getRegionShortCode, parseTarget } from '../src/lib/regions.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('region aliases', () => {
+  const config: DeploymentConfig = {
+    _regions: {
+      pdx: 'us-west-2',
+      iad: 'us-east-1',
+      apse9: 'ap-southeast-9'
+    },
+    defaults: {
+      app: { bucket: 'app-${env_name}-${region_short}' }
+    },
+    environments: {
+      dev: { regions: { 'us-west-2': {}, 'us-east-1': {}, 'ap-southeast-9': {}, 'eu-west-1': {} } },
+      'gcp-dev': { _provider: 'gcp', regions: { 'us-central1': {} } }
+    }
+  };
+
+  function resolveTarget(target: string): MergedConfig {
+    return mergeConfig({ configFile: config, target, component: 'app', output: 'json' }) as MergedConfig;
+  }
+
+  test('should use aliases as the short codes of their regions', () => {
+    expect(resolveTarget('dev-pdx')).toMatchObject({ region: 'us-west-2', region_short: 'pdx', bucket: 'app-dev-pdx' });
+    expect(resolveTarget('dev-usw2')).toMatchObject({ region: 'us-west-2', region_short: 'pdx' });
+    expect(resolveTarget('dev-euw1')).toMatchObject({ region: 'eu-west-1', region_short: 'euw1' });
+  });
+
+  test('should add regions missing from the catalog', () => {
+    expect(resolveTarget('dev-apse9')).toMatchObject({ region: 'ap-southeast-9', region_short: 'apse9' });
+    expect(resolveTarget('dev-ap-southeast-9').region_short).toBe('apse9');
+    const { _regions, ...withoutAliases } = config;
+    expect(() => mergeConfig({ configFile: withoutAliases, target: 'dev-ap-southeast-9', output: 'json' }))
+      .toThrow("Environment 'dev-ap-southeast-9' not found in config file");
+  });
+
+  test('should accept aliases as regions and keep the codes of other regions', () => {
+    expect(resolveTarget('gcp-dev-usc1').region_short).toBe('usc1');
+    expect(mergeConfig({ configFile: config, env: 'dev', region: 'iad', component: 'app', output: 'json' }))
+      .toMatchObject({ region: 'us-east-1', region_short: 'iad' });
+  });
+
+  test('should only apply aliases to the catalogs of their regions', () => {
+    expect(() => resolveTarget('gcp-dev-pdx'))
+      .toThrow("Region 'us-west-2' is not a valid region code or name for provider 'gcp'");
+    expect(() => mergeConfig({ configFile: config, env: 'gcp-dev', region: 'apse9', output: 'json' }))
+      .toThrow("Region 'apse9' is not a valid region code or name for provider 'gcp'");
+
+    const gcpAlias: DeploymentConfig = { ...config, _regions: { iowa: 'us-central1' } };
+    expect(mergeConfig({ configFile: gcpAlias, target: 'gcp-dev-iowa', component: 'app', output: 'json' }))
+      .toMatchObject({ region: 'us-central1', region_short: 'iowa' });
+    expect(() => mergeConfig({ configFile: gcpAlias, target: 'dev-iowa', output: 'json' }))
+      .toThrow("Environment 'dev-iowa' not found in config file");
+  });
+
+  test('should be honored by the region helpers', () => {
+    expect(parseTarget('dev-iad', config)).toEqual({ env: 'dev', region: 'us-east-1' });
+    expect(parseTarget('dev-iad')).toEqual({ env: 'dev-iad', region: undefined });
+    expect(getRegionShortCode('us-west-2', config)).toBe('pdx');
+    expect(getRegionShortCode('us-west-2')).toBe('usw2');
+    expect(getRegionFullName('iad', config)).toBe('us-east-1');
+  });
+
+  test('should use aliases in list-environments targets', () => {
+    const dev = checkComponentAvailability(config, 'app').environments.find(env => env.environment === 'dev');
+    expect(dev?.regions?.map(region => region.target)).toEqual(['dev-pdx', 'dev-iad', 'dev-apse9', 'dev-euw1']);
+  });
+
+  test('should validate the alias map', () => {
+    const invalid = { ...config, _regions: { pdx: 42 } } as unknown as DeploymentConfig;
+    expect(() => mergeConfig({ configFile: invalid, target: 'dev-pdx', output: 'json' }))
+      .toThrow('Invalid _regions value. Expected a map of region short codes to full region names');
+  });
+});
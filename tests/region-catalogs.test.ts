@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentAvailability } from '../src/lib/component-discovery.js';
+import { getRegionFullName, getRegionShortCode, GcpRegionCatalog, parseTarget } from '../src/lib/regions.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('region catalogs', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      network: { name: 'net-${env_name}-${region_short}' }
+    },
+    environments: {
+      dev: { regions: { 'us-west-2': {} } },
+      'gcp-dev': { _provider: 'gcp', regions: { 'us-central1': {}, 'europe-west4': {} } },
+      'azure-prod': { _provider: 'azure', regions: { westeurope: {} } },
+      ephemeral: { _baseEnvironment: 'gcp-dev' }
+    }
+  };
+
+  function resolveTarget(target: string): MergedConfig {
+    return mergeConfig({ configFile: config, target, component: 'network', output: 'json' }) as MergedConfig;
+  }
+
+  test('should read targets with the catalog of the environment provider', () => {
+    expect(resolveTarget('gcp-dev-usc1')).toMatchObject({ region: 'us-central1', region_short: 'usc1', name: 'net-gcp-dev-usc1' });
+    expect(resolveTarget('gcp-dev-europe-west4')).toMatchObject({ region: 'europe-west4', region_short: 'euw4' });
+    expect(resolveTarget('azure-prod-weu')).toMatchObject({ region: 'westeurope', region_short: 'weu' });
+    expect(resolveTarget('dev-usw2')).toMatchObject({ region: 'us-west-2', region_short: 'usw2' });
+  });
+
+  test('should reject regions of other providers', () => {
+    expect(() => resolveTarget('gcp-dev-us-west-2'))
+      .toThrow("Region 'us-west-2' is not a valid region code or name for provider 'gcp'");
+    expect(() => mergeConfig({ configFile: config, env: 'azure-prod', region: 'euw1', output: 'json' }))
+      .toThrow("Region 'euw1' is not a valid region code or name for provider 'azure'");
+  });
+
+  test('should inherit the provider from base environments', () => {
+    const result = mergeConfig({
+      configFile: config,
+      target: 'feature-x-usc1',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/feature-x',
+      component: 'network',
+      output: 'json'
+    }) as MergedConfig;
+
+    expect(result).toMatchObject({ env_name: 'feature-x', region: 'us-central1', name: 'net-feature-x-usc1' });
+    expect(parseTarget('feature-x-usc1', config)).toEqual({ env: 'feature-x', region: 'us-central1' });
+  });
+
+  test('should read targets with the catalog of the environment that resolves', () => {
+    const overlapping: DeploymentConfig = {
+      environments: {
+        dev: { _provider: 'gcp', regions: { 'us-west2': {} } },
+        ephemeral: { regions: { 'us-west-2': {} } }
+      }
+    };
+
+    expect(parseTarget('dev-usw2', overlapping)).toEqual({ env: 'dev', region: 'us-west2' });
+    expect(parseTarget('dev-foo-usw2', overlapping)).toEqual({ env: 'dev-foo', region: 'us-west-2' });
+    expect(mergeConfig({
+      configFile: overlapping,
+      target: 'dev-foo-usw2',
+      ephemeralBranchPrefix: 'ephemeral/',
+      branchName: 'ephemeral/dev-foo',
+      output: 'json'
+    })).toMatchObject({ env_name: 'dev-foo', region: 'us-west-2', region_short: 'usw2' });
+  });
+
+  test('should reject unknown providers', () => {
+    const invalid: DeploymentConfig = { environments: { dev: { _provider: 'oracle' as never } } };
+    expect(() => mergeConfig({ configFile: invalid, env: 'dev', output: 'json' }))
+      .toThrow("Environment 'dev' has an unknown _provider 'oracle'. Known providers: aws, gcp, azure");
+  });
+
+  test('should generate list-environments targets with the catalog short codes', () => {
+    const result = checkComponentAvailability(config, 'network');
+    const targets = result.environments.flatMap(env => env.regions?.map(region => region.target) ?? []);
+
+    expect(targets).toEqual(['dev-usw2', 'gcp-dev-usc1', 'gcp-dev-euw4', 'azure-prod-weu', 'ephemeral-usc1', 'ephemeral-euw4']);
+  });
+
+  test('should include all current AWS regions', () => {
+    expect(parseTarget('dev-mxc1')).toEqual({ env: 'dev', region: 'mx-central-1' });
+    expect(parseTarget('dev-ap-southeast-7')).toEqual({ env: 'dev', region: 'ap-southeast-7' });
+    expect(getRegionShortCode('us-gov-west-1')).toBe('usgw1');
+    expect(getRegionFullName('usc1', GcpRegionCatalog)).toBe('us-central1');
+  });
+});
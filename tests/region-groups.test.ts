@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig, parseTarget } from '../src/lib/merge-config.js';
+import { checkComponentAvailability } from '../src/lib/component-discovery.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('region groups and wildcard region blocks', () => {
+  const config: DeploymentConfig = {
+    regionGroups: {
+      eu: ['eu-west-1', 'eu-central-1']
+    },
+    defaults: {
+      app: { data_residency: null, instance_type: 't4g.small', replicas: 2 }
+    },
+    environments: {
+      prod: {
+        regions: {
+          'eu-*': { app: { instance_type: 't4g.medium' } },
+          eu: { app: { data_residency: 'eu', instance_type: 't4g.large' } },
+          'eu-central-1': { app: { replicas: 4 } },
+          'us-west-2': { app: { data_residency: 'us' } }
+        }
+      }
+    }
+  };
+
+  test('should merge group, pattern and exact region blocks in order', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', region: 'euc1', output: 'json' }) as MergedConfig;
+    expect(result.app).toEqual({ data_residency: 'eu', instance_type: 't4g.medium', replicas: 4 });
+  });
+
+  test('should apply group blocks to every region in the group', () => {
+    const result = mergeConfig({ configFile: config, target: 'prod-euw1', output: 'json' }) as MergedConfig;
+    expect(result.region).toBe('eu-west-1');
+    expect(result.app).toEqual({ data_residency: 'eu', instance_type: 't4g.medium', replicas: 2 });
+  });
+
+  test('should list only deployable regions as targets', () => {
+    const result = checkComponentAvailability(config, 'app');
+    const prod = result.environments[0]!;
+    expect(prod.regions?.map(r => r.region)).toEqual(['eu-west-1', 'eu-central-1', 'us-west-2']);
+    expect(prod.regions?.map(r => r.target)).toEqual(['prod-euw1', 'prod-euc1', 'prod-usw2']);
+    expect(prod.regions?.[0]?.hasConfig).toBe(true);
+  });
+
+  test('should list deployable regions when a region is required', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'prod', output: 'json', component: 'app' }))
+      .toThrow('Available regions: eu-west-1, eu-central-1, us-west-2');
+  });
+
+  test('should reject region groups and patterns as regions', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'prod', region: 'eu', output: 'json' }))
+      .toThrow("Region 'eu' is a region group or pattern, not a deployable region");
+    expect(() => mergeConfig({ configFile: config, env: 'prod', region: 'eu-*', output: 'json' }))
+      .toThrow("Region 'eu-*' is a region group or pattern, not a deployable region");
+    expect(() => parseTarget('prod-eu', config))
+      .toThrow("Target 'prod-eu' refers to region group 'eu', which is not deployable. Use one of its regions: eu-west-1, eu-central-1");
+  });
+
+  test('should not reject environments whose name ends with a group name', () => {
+    const withEuEnv: DeploymentConfig = { ...config, environments: { ...config.environments, 'prod-eu': {} } };
+    expect(parseTarget('prod-eu', withEuEnv)).toEqual({ env: 'prod-eu', region: undefined });
+  });
+
+  test('should reject target combined with env or region', () => {
+    expect(() => mergeConfig({ configFile: config, target: 'prod-euw1', env: 'prod', output: 'json' }))
+      .toThrow('target cannot be used with env or region');
+  });
+});
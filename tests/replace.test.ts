@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity } from '../src/lib/component-discovery.js';
+import { deepMerge } from '../src/lib/utils.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('_replace metadata flag', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      storage: {
+        bucket: 'data',
+        tags: { Team: 'platform', CostCenter: null },
+        lifecycle: { expire_days: 30, transitions: { glacier: 90 } }
+      }
+    },
+    environments: {
+      dev: {
+        storage: {
+          tags: { CostCenter: '1234' }
+        }
+      },
+      prod: {
+        storage: {
+          tags: { _replace: true, Team: 'prod-ops' }
+        },
+        regions: {
+          'us-west-2': {
+            storage: {
+              lifecycle: { _replace: true, expire_days: 365 }
+            }
+          }
+        }
+      }
+    }
+  };
+
+  test('should replace nested objects in deepMerge', () => {
+    const result = deepMerge({ tags: { a: '1', b: '2' } }, { tags: { _replace: true, c: '3' } });
+    expect(result.tags).toEqual({ _replace: true, c: '3' });
+  });
+
+  test('should merge later layers on top of a replaced object', () => {
+    const result = deepMerge({ tags: { a: '1' } }, { tags: { _replace: true, b: '2' } }, { tags: { c: '3' } });
+    expect(result.tags).toEqual({ _replace: true, b: '2', c: '3' });
+  });
+
+  test('should discard the inherited object and strip the flag in mergeConfig', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', region: 'usw2', output: 'json' }) as MergedConfig;
+    expect(result.storage).toEqual({
+      bucket: 'data',
+      tags: { Team: 'prod-ops' },
+      lifecycle: { expire_days: 365 }
+    });
+  });
+
+  test('should merge normally without the flag', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', output: 'json' }) as MergedConfig;
+    expect((result.storage as Record<string, unknown>).tags).toEqual({ Team: 'platform', CostCenter: '1234' });
+  });
+
+  test('should drop inherited null values from a replaced object in checkComponentValidity', () => {
+    const envSource = config.environments!;
+    expect(checkComponentValidity(config, envSource, 'prod', null, 'storage')).toEqual({ valid: true, hasConfig: true });
+  });
+
+  test('should replace a whole component', () => {
+    const componentConfig: DeploymentConfig = {
+      defaults: { app: { size: 'small', debug: null } },
+      environments: { prod: { app: { _replace: true, size: 'large' } } }
+    };
+    const result = mergeConfig({ configFile: componentConfig, env: 'prod', output: 'json' }) as MergedConfig;
+    expect(result.app).toEqual({ size: 'large' });
+  });
+});
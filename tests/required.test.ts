@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity, checkComponentAvailability } from '../src/lib/component-discovery.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('$required placeholders', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      network: {
+        vpc_cidr: { $required: 'string', description: 'VPC CIDR for this region', pattern: '^10\\.' },
+        nat_gateways: { $required: 'number' },
+        name: 'main'
+      },
+      app: { replicas: 1 }
+    },
+    environments: {
+      dev: {
+        network: { vpc_cidr: '10.0.0.0/16', nat_gateways: 1 }
+      },
+      staging: {},
+      qa: {
+        network: { vpc_cidr: '192.168.0.0/16', nat_gateways: 1 }
+      },
+      prod: {
+        network: { vpc_cidr: '10.1.0.0/16', nat_gateways: 'two' }
+      }
+    }
+  };
+
+  test('should accept valid overrides', () => {
+    const result = mergeConfig({ configFile: config, env: 'dev', component: 'network', output: 'json' }) as MergedConfig;
+    expect(result.vpc_cidr).toBe('10.0.0.0/16');
+    expect(result.nat_gateways).toBe(1);
+  });
+
+  test('should report missing required values with their description', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'staging', component: 'network', output: 'json' }))
+      .toThrow('Missing required value at path: vpc_cidr (VPC CIDR for this region)');
+    expect(() => mergeConfig({ configFile: config, env: 'staging', component: 'network', hoist: false, output: 'json' }))
+      .toThrow("Component 'network' is missing a required value at path: network.vpc_cidr (VPC CIDR for this region) for target 'staging'");
+  });
+
+  test('should filter components with missing required values from full resolves', () => {
+    const result = mergeConfig({ configFile: config, env: 'staging', output: 'json' }) as MergedConfig;
+    expect(result.network).toBeUndefined();
+    expect(result.app).toEqual({ replicas: 1 });
+  });
+
+  test('should validate the type and pattern of overrides', () => {
+    expect(() => mergeConfig({ configFile: config, env: 'qa', component: 'network', output: 'json' }))
+      .toThrow("Value at path: vpc_cidr does not match the required pattern '^10\\.' (VPC CIDR for this region)");
+    expect(() => mergeConfig({ configFile: config, env: 'prod', output: 'json' }))
+      .toThrow("Value at path: network.nat_gateways must be of type 'number'");
+  });
+
+  test('should validate interpolated values', () => {
+    const interpolated: DeploymentConfig = {
+      defaults: {
+        network: { vpc_cidr: { $required: 'string', pattern: '^10\\.' }, base: '172.16.0.0/16' }
+      },
+      environments: { dev: { network: { vpc_cidr: '${network.base}' } } }
+    };
+    expect(() => mergeConfig({ configFile: interpolated, env: 'dev', component: 'network', output: 'json' }))
+      .toThrow("Value at path: vpc_cidr does not match the required pattern '^10\\.'");
+  });
+
+  test('should pass placeholders on through component templates', () => {
+    const templated: DeploymentConfig = {
+      defaults: {
+        base: { _abstract: true, bucket: { $required: true, description: 'State bucket' } },
+        tfState: { _extends: 'base' }
+      },
+      environments: { dev: { tfState: { bucket: 'dev-state' } }, prod: {} }
+    };
+    expect((mergeConfig({ configFile: templated, env: 'dev', component: 'tfState', output: 'json' }) as MergedConfig).bucket).toBe('dev-state');
+    expect(checkComponentValidity(templated, templated.environments!, 'prod', null, 'tfState'))
+      .toEqual({ valid: false, reason: 'missing_required_value_at_bucket: State bucket' });
+  });
+
+  test('should explain missing and invalid values in checkComponentValidity', () => {
+    const envSource = config.environments!;
+    expect(checkComponentValidity(config, envSource, 'staging', null, 'network'))
+      .toEqual({ valid: false, reason: 'missing_required_value_at_vpc_cidr: VPC CIDR for this region' });
+    expect(checkComponentValidity(config, envSource, 'prod', null, 'network'))
+      .toEqual({ valid: false, reason: 'invalid_required_value_at_nat_gateways' });
+    expect(checkComponentValidity(config, envSource, 'dev', null, 'network')).toEqual({ valid: true, hasConfig: true });
+
+    const availability = checkComponentAvailability(config, 'network');
+    expect(availability.environments.filter(e => e.available).map(e => e.environment)).toEqual(['dev']);
+  });
+
+  test('should treat references to missing required values as broken', () => {
+    const referencing: DeploymentConfig = {
+      defaults: {
+        network: { vpc_cidr: { $required: 'string' } },
+        app: { cidr: { $ref: 'network.vpc_cidr' } }
+      },
+      environments: { dev: {} }
+    };
+    expect(checkComponentValidity(referencing, referencing.environments!, 'dev', null, 'app'))
+      .toEqual({ valid: false, reason: 'null_reference_at_cidr' });
+  });
+
+  test('should reject unknown types', () => {
+    const invalid: DeploymentConfig = {
+      defaults: { app: { size: { $required: 'int' } } },
+      environments: { dev: { app: { size: 1 } } }
+    } as unknown as DeploymentConfig;
+    expect(() => mergeConfig({ configFile: invalid, env: 'dev', component: 'app', output: 'json' }))
+      .toThrow("Invalid $required type 'int' at path: size");
+  });
+});
@@ -267,7 +267,8 @@ describe('resolve command', () => {
       }));
 
       try {
-        const result = runResolve(`--config ${tempConfig} --target dev`);
+        // Unregistered metadata keys are only accepted in lenient mode
+        const result = runResolve(`--config ${tempConfig} --target dev --metadata-validation lenient`);
         const parsed = JSON.parse(result);
 
         // _regionAgnostic and other metadata keys should be stripped from output
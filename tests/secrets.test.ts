@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { listSecretReferences, mergeConfig } from '../src/lib/merge-config.js';
+import { redactSecrets } from '../src/lib/secrets.js';
+import type { DeploymentConfig, MergedConfig, SecretProvider } from '../src/types/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('secret references', () => {
+  const cliPath = path.join(__dirname, '..', 'dist', 'esm', 'cli.js');
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-test-'));
+    fs.mkdirSync(path.join(tempDir, 'secrets'));
+    fs.writeFileSync(path.join(tempDir, 'secrets', 'dev.json'), JSON.stringify({ db: { password: 's3cr3t' } }), 'utf8');
+    fs.writeFileSync(path.join(tempDir, 'secrets', 'token.txt'), 'tok-123\n', 'utf8');
+  });
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeConfig(config: DeploymentConfig): string {
+    const configFile = path.join(tempDir, 'config.json5');
+    fs.writeFileSync(configFile, JSON.stringify(config), 'utf8');
+    return configFile;
+  }
+
+  const config: DeploymentConfig = {
+    defaults: {
+      db: {
+        password: { $secret: 'file:./secrets/dev.json#db.password' },
+        url: 'postgres://app:${db.password}@db'
+      },
+      api: { token: { $secret: 'file:./secrets/token.txt' } }
+    },
+    environments: { dev: {} }
+  };
+
+  test('should resolve file secrets relative to the config file and report them', () => {
+    const secrets: string[] = [];
+    const result = mergeConfig({
+      configFile: writeConfig(config),
+      env: 'dev',
+      output: 'json',
+      onSecret: value => secrets.push(value)
+    }) as MergedConfig;
+
+    expect(result.db).toEqual({ password: 's3cr3t', url: 'postgres://app:s3cr3t@db' });
+    expect(result.api).toEqual({ token: 'tok-123' });
+    expect(secrets.sort()).toEqual(['s3cr3t', 'tok-123']);
+  });
+
+  test('should use registered providers', () => {
+    const ssm: SecretProvider = {
+      resolve: (reference, context) => `ssm(${reference})@${context.path}`
+    };
+    const result = mergeConfig({
+      configFile: { defaults: { db: { password: { $secret: 'ssm:/dev/db/password' } } }, environments: { dev: {} } },
+      env: 'dev',
+      component: 'db',
+      output: 'json',
+      secretProviders: { ssm }
+    }) as MergedConfig;
+
+    expect(result.password).toBe('ssm(/dev/db/password)@password');
+  });
+
+  test('should list the secret references of a target for remote providers', () => {
+    const remote: DeploymentConfig = {
+      defaults: {
+        db: { password: { $secret: 'ssm:/app/db/password' }, user: 'app' },
+        api: { token: { $secret: 'vault:kv/api#token' } }
+      },
+      environments: { dev: {}, prod: { api: { token: { $secret: 'vault:kv/prod-api#token' } } } }
+    };
+
+    expect(listSecretReferences({ configFile: remote, env: 'prod' })).toEqual(['ssm:/app/db/password', 'vault:kv/prod-api#token']);
+    expect(listSecretReferences({ configFile: remote, env: 'dev', component: 'db' })).toEqual(['ssm:/app/db/password']);
+
+    // Fetched up front (e.g. with an async SDK call), then returned by synchronous providers
+    const fetched: Record<string, string> = { '/app/db/password': 'db-pass', 'kv/prod-api#token': 'api-token' };
+    const fromFetched: SecretProvider = { resolve: reference => fetched[reference]! };
+    const result = mergeConfig({ configFile: remote, env: 'prod', output: 'json', secretProviders: { ssm: fromFetched, vault: fromFetched } }) as MergedConfig;
+    expect(result).toMatchObject({ db: { password: 'db-pass' }, api: { token: 'api-token' } });
+  });
+
+  test('should restrict env secrets to allowed variables', () => {
+    const envConfig: DeploymentConfig = { defaults: { db: { password: { $secret: 'env:DB_PASSWORD' } } }, environments: { dev: {} } };
+    process.env.DB_PASSWORD = 'from-env';
+    try {
+      const result = mergeConfig({ configFile: envConfig, env: 'dev', component: 'db', output: 'json', allowedEnvVars: ['DB_*'] }) as MergedConfig;
+      expect(result.password).toBe('from-env');
+      expect(() => mergeConfig({ configFile: envConfig, env: 'dev', component: 'db', output: 'json' }))
+        .toThrow("Failed to resolve secret at path: password: Environment variable 'DB_PASSWORD' is not allowed");
+    } finally {
+      delete process.env.DB_PASSWORD;
+    }
+  });
+
+  test('should report unknown providers and missing secrets', () => {
+    expect(() => mergeConfig({
+      configFile: { defaults: { db: { password: { $secret: 'vault:db' } } }, environments: { dev: {} } },
+      env: 'dev',
+      output: 'json'
+    })).toThrow("Unknown secret provider 'vault' for secret at path: db.password. Available providers: file, env");
+
+    expect(() => mergeConfig({
+      configFile: writeConfig({ defaults: { db: { password: { $secret: 'file:./secrets/dev.json#db.user' } } }, environments: { dev: {} } }),
+      env: 'dev',
+      output: 'json'
+    })).toThrow("Failed to resolve secret at path: db.password: Secret 'db.user' not found");
+  });
+
+  test('should reject secret files outside the config directory', () => {
+    const resolveFile = (file: string) => mergeConfig({
+      configFile: writeConfig({ defaults: { db: { password: { $secret: `file:${file}` } } }, environments: { dev: {} } }),
+      env: 'dev',
+      output: 'json'
+    });
+
+    expect(() => resolveFile('/proc/self/environ'))
+      .toThrow("Failed to resolve secret at path: db.password: Secret file '/proc/self/environ' must be a path relative to the config file");
+    expect(() => resolveFile('../outside.txt'))
+      .toThrow("Failed to resolve secret at path: db.password: Secret file '../outside.txt' is outside the config directory");
+    expect(() => resolveFile('./secrets/../../outside.txt'))
+      .toThrow('is outside the config directory');
+  });
+
+  test('should redact secrets', () => {
+    expect(redactSecrets({ a: 'x-s3cr3t-y', b: ['s3cr3t'], c: 1 }, ['s3cr3t'])).toEqual({ a: 'x-***-y', b: ['***'], c: 1 });
+  });
+
+  test('should redact secrets in CLI debug output only', () => {
+    const configFile = writeConfig(config);
+    const output = execSync(
+      `node ${cliPath} resolve --config "${configFile}" --env dev --component db --terraform --debug 2>&1 1>/dev/null`,
+      { encoding: 'utf8' }
+    );
+    expect(output).toContain('"password": "***"');
+    expect(output).not.toContain('s3cr3t');
+
+    const result = JSON.parse(execSync(`node ${cliPath} resolve --config "${configFile}" --env dev --component db --terraform`, { encoding: 'utf8' }));
+    expect(JSON.parse(result.mergedConfig).password).toBe('s3cr3t');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { mergeConfig } from '../src/lib/merge-config.js';
+import { checkComponentValidity, checkComponentAvailability } from '../src/lib/component-discovery.js';
+import { deepMerge, findNullValue } from '../src/lib/utils.js';
+import type { DeploymentConfig, MergedConfig } from '../src/types/index.js';
+
+describe('$unset deletion marker', () => {
+  const config: DeploymentConfig = {
+    defaults: {
+      network: {
+        vpc_cidr: '10.0.0.0/8',
+        debug_endpoint: null,
+        flow_logs: { enabled: true, level: 'debug' }
+      },
+      monitoring: {
+        enabled: true
+      }
+    },
+    environments: {
+      dev: {
+        network: { debug_endpoint: 'http://debug.local' }
+      },
+      prod: {
+        network: {
+          debug_endpoint: { $unset: true },
+          flow_logs: { level: { $unset: true } }
+        },
+        monitoring: { $unset: true }
+      }
+    }
+  };
+
+  test('should remove inherited keys in deepMerge', () => {
+    const result = deepMerge({ a: 1, b: { c: 2, d: 3 } }, { a: { $unset: true }, b: { d: { $unset: true } } });
+    expect(result).toEqual({ b: { c: 2 } });
+  });
+
+  test('should allow a later layer to set an unset key again', () => {
+    const result = deepMerge({ a: 1 }, { a: { $unset: true } }, { a: 2 });
+    expect(result).toEqual({ a: 2 });
+  });
+
+  test('should treat unset keys as absent in findNullValue', () => {
+    expect(findNullValue({ a: { $unset: true }, b: 'value' })).toBeNull();
+  });
+
+  test('should drop an inherited required key in mergeConfig', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', output: 'json' }) as MergedConfig;
+    expect(result.network).toEqual({
+      vpc_cidr: '10.0.0.0/8',
+      flow_logs: { enabled: true }
+    });
+  });
+
+  test('should remove a whole component for an environment', () => {
+    const result = mergeConfig({ configFile: config, env: 'prod', output: 'json' }) as MergedConfig;
+    expect(result.monitoring).toBeUndefined();
+
+    expect(() => mergeConfig({ configFile: config, env: 'prod', output: 'json', component: 'monitoring' }))
+      .toThrow("Component 'monitoring' not found or is not a valid component in the merged configuration");
+  });
+
+  test('should report unset keys as absent in component discovery', () => {
+    const envSource = config.environments!;
+    expect(checkComponentValidity(config, envSource, 'prod', null, 'network')).toEqual({ valid: true, hasConfig: true });
+    expect(checkComponentValidity(config, envSource, 'prod', null, 'monitoring')).toEqual({ valid: false, reason: 'component_not_found' });
+
+    const availability = checkComponentAvailability(config, 'monitoring');
+    expect(availability.environments.find(e => e.environment === 'dev')?.available).toBe(true);
+    expect(availability.environments.find(e => e.environment === 'prod')?.available).toBe(false);
+  });
+});